@@ -1,15 +1,145 @@
 import { type Plugin, tool } from "@opencode-ai/plugin"
+import * as childProcess from "child_process"
 import * as fs from "fs"
 import * as path from "path"
 
+interface TaskResult {
+  summary?: string
+  files: string[]
+  abandoned: boolean
+  rawTail: string // Last part of the worker's final message, for debugging
+}
+
+// Tokens and cost reported by sessions' assistant messages
+interface Usage {
+  input: number
+  output: number
+  reasoning: number
+  cacheRead: number
+  cacheWrite: number
+  cost: number // USD
+}
+
+// Once a loop has used this much, no new tasks or iterations are started
+interface Budget {
+  maxTokens?: number // Input, output and reasoning tokens
+  maxCost?: number // USD
+}
+
+// Why a task attempt failed - decides whether the retry policy may try again
+type FailureClass = "transient" | "session" | "task" | "merge_conflict" | "timeout" | "verification"
+
+interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number // Backoff before the first retry, doubled on each further retry
+  maxDelayMs: number
+  retryOn: FailureClass[]
+}
+
+interface TaskAttempt {
+  attempt: number
+  sessionId?: string
+  startedAt: number
+  finishedAt?: number
+  status: RalphTask["status"]
+  error?: string
+  failureClass?: FailureClass
+  fixUpSessions?: string[] // Sessions spawned to fix failing verification in this attempt
+  branch?: string // Worktree branch kept with this attempt's unmerged changes
+  usage?: Usage // All sessions of this attempt, fix-ups included
+}
+
 interface RalphTask {
   id: string
   content: string
-  status: "pending" | "in_progress" | "completed" | "failed"
+  status: "pending" | "in_progress" | "completed" | "unverified" | "failed" | "timed_out" | "blocked" | "cancelled"
   sessionId?: string
   error?: string
   dependencies?: string[] // Task IDs this task depends on
   outputs?: string[] // What this task produces (for dependency resolution)
+  files?: string[] // Files the plan expects this task to create or modify
+  acceptanceCriteria?: string[] // Conditions the worker must meet before reporting TASK_COMPLETE
+  result?: TaskResult // Parsed TASK_COMPLETE block from the worker
+  attempts?: TaskAttempt[] // One entry per session spawned for this task
+  retry?: Partial<RetryPolicy> // Overrides the loop's retry policy for this task
+  blockedBy?: string // ID of the failed task that caused this task to be skipped
+  branch?: string // Worktree branch holding this task's changes when they were not merged
+  conflicts?: string[] // Files that conflicted when merging this task's worktree back
+  model?: ModelConfig // Overrides routing and the loop's worker model for this task
+  tags?: string[] // Matched against ModelRoute.tag
+  complexity?: TaskComplexity // Assigned by the planner or ralph_add_tasks; matched against ModelRoute.complexity
+  modelUsed?: ModelConfig // Model the worker actually ran on in its last attempt
+  timeoutMs?: number // Overrides the loop's taskTimeoutMs for this task
+  parentId?: string // Set on subtasks of a task that was too large for one worker; the parent completes when they do
+  usage?: Usage // Summed over all attempts
+}
+
+// What a run does once a task fails:
+// fail_fast stops starting new tasks, continue skips only the failed task's dependents,
+// run_anyway starts dependents regardless
+type FailurePolicy = "fail_fast" | "continue" | "run_anyway"
+
+// Shell commands that must pass before work counts as done
+interface VerificationConfig {
+  afterTask?: string[] // Run in the task's working tree once the worker reports TASK_COMPLETE
+  afterLayer?: string[] // Run in the project once every task of an execution layer has finished
+  fixAttempts?: number // Fix-up sessions to try when a task's verification fails. Default: 0
+  timeoutMs?: number // Per command. Default: DEFAULT_VERIFY_TIMEOUT_MS
+}
+
+// Classic Ralph (ralph_loop): the same prompt runs in a fresh session each iteration until the completion check passes.
+// With both a marker and a command set, both must pass.
+interface IterationSettings {
+  maxIterations: number
+  completionMarker?: string // Done when the iteration's final message ends with this text, on a line of its own
+  completionCommand?: string // Done when this shell command exits 0 in the project
+  cooldownMs?: number // Pause between iterations
+}
+
+interface LoopIteration {
+  iteration: number
+  sessionId?: string
+  startedAt: number
+  finishedAt?: number
+  status: "in_progress" | "done" | "not_done" | "failed" | "timed_out" | "cancelled"
+  error?: string
+  tail?: string // Last part of the iteration's final message
+  usage?: Usage
+}
+
+// Kinds of journal events. Task status changes map to task_started (in_progress), task_completed,
+// task_failed (failed, timed_out, unverified), task_blocked, task_cancelled and task_reset (back to pending).
+type JournalEventType =
+  | "loop_created" | "run_started" | "run_finished"
+  | "task_added" | "task_updated" | "task_removed"
+  | "session_created"
+  | "task_started" | "task_completed" | "task_failed" | "task_retried" | "task_blocked" | "task_cancelled" | "task_reset"
+  | "iteration_started" | "iteration_finished"
+
+// One line of a loop's append-only journal (ralph-journal/<loopId>.jsonl next to the state file)
+interface JournalEvent {
+  at: number
+  type: JournalEventType
+  taskId?: string
+  status?: RalphTask["status"] | LoopIteration["status"]
+  sessionId?: string
+  role?: "planner" | "worker" | "fix_up" | "iteration" // Who a created session is for
+  attempt?: number // Task attempt, or iteration number
+  error?: string
+  blockedBy?: string
+  delayMs?: number // task_retried: backoff before the next attempt
+  prompt?: string // loop_created
+  mode?: "tasks" | "iterate" // loop_created
+  task?: Pick<RalphTask, "id" | "content" | "dependencies" | "parentId"> // task_added, task_updated, task_removed
+  progress?: string // run_finished
+}
+
+// Report files written by ralph_report and at the end of every run
+type ReportFormat = "markdown" | "json" | "junit"
+
+interface ReportSettings {
+  dir?: string // Default: ralph-reports/ next to the state file
+  formats?: ReportFormat[] // Written at the end of every run. Default: all; [] turns automatic reports off
 }
 
 interface ModelConfig {
@@ -17,14 +147,83 @@ interface ModelConfig {
   modelID: string
 }
 
+type TaskComplexity = "low" | "medium" | "high"
+
+// Sends matching tasks to a model. A route matches when every criterion it sets matches; the first match wins.
+interface ModelRoute {
+  tag?: string
+  complexity?: TaskComplexity
+  model: ModelConfig
+}
+
 interface RalphLoop {
   id: string
   originalPrompt: string
   tasks: RalphTask[]
   currentTaskIndex: number
   createdAt: number
-  model?: ModelConfig
+  model?: ModelConfig // Worker model for tasks without an override or matching route
+  plannerModel?: ModelConfig // Model for planning sessions; defaults to model
+  modelRoutes?: ModelRoute[]
   running: boolean
+  retryPolicy?: Partial<RetryPolicy>
+  maxConcurrency?: number // Worker sessions running at once; unset = no limit
+  providerConcurrency?: Record<string, number> // Per-provider limits keyed by ModelConfig.providerID
+  onFailure?: FailurePolicy // Default: continue
+  stopRequested?: "pause" | "cancel" // Set by ralph_pause / ralph_cancel; cleared by the next ralph_run
+  isolation?: "shared" | "worktree" // worktree: each task runs in its own git worktree and branch
+  taskTimeoutMs?: number // Wall-clock limit per task attempt; unset = no limit
+  inactivityTimeoutMs?: number // Abort an attempt whose session sends no events for this long; unset = no limit
+  verification?: VerificationConfig
+  maxPlanDepth?: number // How many levels oversized planned tasks are split into subtasks
+  iterate?: IterationSettings // Set for ralph_loop loops, which run iterations instead of tasks
+  iterations?: LoopIteration[]
+  usage?: Usage // Every session of the loop: planning, workers, fix-ups and iterations
+  planningUsage?: Usage // The planning sessions' share of usage
+  budget?: Budget
+  reports?: ReportSettings
+}
+
+// Project settings from ralph.config.json with model strings parsed and paths made absolute.
+// They seed new loops; tool arguments override them.
+interface RalphConfig {
+  model?: ModelConfig
+  plannerModel?: ModelConfig
+  routes?: ModelRoute[]
+  maxConcurrency?: number
+  providerConcurrency?: Record<string, number>
+  retry?: Partial<RetryPolicy>
+  onFailure?: FailurePolicy
+  isolation?: "shared" | "worktree"
+  taskTimeoutMs?: number
+  inactivityTimeoutMs?: number
+  verification?: VerificationConfig
+  maxPlanDepth?: number
+  budget?: Budget
+  reports?: ReportSettings
+  stateDir?: string
+  templates: { worker: string; planner: string }
+}
+
+interface GraphIssue {
+  kind: "duplicate_id" | "unknown_dependency" | "self_dependency" | "ancestor_dependency" | "cycle"
+  taskId: string
+  message: string
+}
+
+// A dependency inferred from what tasks mention, with the reason - shown so it can be checked or overridden
+interface InferredDependency {
+  dependsOn: string
+  reason: string // e.g. "task_4 uses `src/auth.ts` produced by task_2"
+}
+
+interface RalphState {
+  schemaVersion: number
+  loops: Record<string, RalphLoop>
+  activeLoopId: string | null
+  lastKnownTodos: any[]
+  savedAt?: number
+  todosDone: number
 }
 
 interface TaskWithDeps {
@@ -32,15 +231,30 @@ interface TaskWithDeps {
   content: string
   dependencies: string[]
   outputs: string[]
+  files?: string[]
+  acceptanceCriteria?: string[]
+  complexity?: TaskComplexity
+  split?: boolean // Flagged by the planner as too large for one worker session
+  parentId?: string
 }
 
-// Ralph state file path
-const RALPH_STATE_FILE = path.join(process.env.HOME || "", ".config", "opencode", "ralph-state.json")
+// Ralph state file path. A project's ralph.config.json can move it with stateDir.
+let ralphStateFile = path.join(process.env.HOME || "", ".config", "opencode", "ralph-state.json")
 
-// In-memory state
-let activeLoop: RalphLoop | null = null
+// In-memory state: every known loop keyed by RalphLoop.id, plus the one tools act on by default
+const loops: Map<string, RalphLoop> = new Map()
+let activeLoopId: string | null = null
 let lastKnownTodos: any[] = []
-let activeSessions: Map<string, { taskId: string; createdAt: number }> = new Map()
+let activeSessions: Map<string, { loopId: string; taskId: string; createdAt: number; directory?: string; lastEventAt: number }> = new Map()
+// Output of the current or last run of each loop, so background runs can be followed with ralph_status
+const runLogs: Map<string, string[]> = new Map()
+// State file trouble met by saves: an unparsable file moved aside, and the last checkpoint that failed
+// (cleared once one succeeds)
+let stateFileMovedAside: string | undefined
+let checkpointError: string | undefined
+// Loops with a run executing in this process. A loop quit mid-run leaves `loops` but keeps running, so its
+// checkpoint still says "running" without having been interrupted.
+const runningLoops: Map<string, RalphLoop> = new Map()
 
 // Default model for all ralph operations
 const DEFAULT_MODEL: ModelConfig = {
@@ -48,53 +262,406 @@ const DEFAULT_MODEL: ModelConfig = {
   modelID: "opencode-zen-big-pickle",
 }
 
-// Save Ralph loop state to file
-const saveRalphState = (): { success: boolean; message: string; todosDone?: number } => {
+const DEFAULT_MAX_PLAN_DEPTH = 1
+// Planned tasks longer than this, or touching more files, are split even when the planner didn't flag them
+const OVERSIZED_TASK_LENGTH = 600
+const OVERSIZED_TASK_FILES = 8
+
+const DEFAULT_MAX_ITERATIONS = 10
+// Completion marker for ralph_loop when no completion check is given
+const DEFAULT_COMPLETION_MARKER = "RALPH_COMPLETE"
+
+const DEFAULT_VERIFY_TIMEOUT_MS = 10 * 60 * 1000
+// Verification output kept on a failed task (the end of it, where test runners put their summary)
+const VERIFY_OUTPUT_LIMIT = 4000
+
+// Default retry policy: retry infrastructure failures, not the worker's own failures
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  retryOn: ["transient", "session"],
+}
+
+const FAILURE_CLASSES = ["transient", "session", "task", "merge_conflict", "timeout", "verification"] as const
+
+const TASK_COMPLEXITIES = ["low", "medium", "high"] as const
+const FAILURE_POLICIES = ["fail_fast", "continue", "run_anyway"] as const
+const REPORT_FORMATS = ["markdown", "json", "junit"] as const
+
+// Current state file format. Bump it and append a migration whenever the format changes.
+const STATE_SCHEMA_VERSION = 2
+
+// Migrations from each schema version to the next; STATE_MIGRATIONS[n] upgrades version n to n + 1
+const STATE_MIGRATIONS: ((state: any) => any)[] = [
+  // 0 -> 1: a single `activeLoop` becomes a registry of loops keyed by ID
+  ({ activeLoop, ...state }) => ({
+    ...state,
+    loops: activeLoop ? { [activeLoop.id]: activeLoop } : {},
+    activeLoopId: activeLoop?.id ?? null,
+  }),
+  // 1 -> 2: every task carries a dependency list
+  state => {
+    for (const loop of Object.values<RalphLoop>(state.loops || {})) {
+      for (const task of loop.tasks) {
+        task.dependencies = task.dependencies || []
+      }
+    }
+    return state
+  },
+]
+
+// Bring parsed state data up to STATE_SCHEMA_VERSION. Files without a version predate versioning.
+const migrateState = (stateData: any): RalphState => {
+  let version: number = stateData.schemaVersion ?? (stateData.loops ? 1 : 0)
+  if (version > STATE_SCHEMA_VERSION) {
+    throw new Error(`State file has schema version ${version}, but this plugin only supports up to ${STATE_SCHEMA_VERSION}`)
+  }
+
+  let state = stateData
+  for (; version < STATE_SCHEMA_VERSION; version++) {
+    state = STATE_MIGRATIONS[version](state)
+  }
+
+  return {
+    schemaVersion: STATE_SCHEMA_VERSION,
+    loops: state.loops || {},
+    activeLoopId: state.activeLoopId ?? null,
+    lastKnownTodos: state.lastKnownTodos || [],
+    savedAt: state.savedAt,
+    todosDone: state.todosDone || 0,
+  }
+}
+
+// Read and migrate the saved state file
+const readStateFile = (): RalphState | null => {
+  if (!fs.existsSync(ralphStateFile)) return null
+  return migrateState(JSON.parse(fs.readFileSync(ralphStateFile, "utf-8")))
+}
+
+// Write a file atomically: write and flush a temp file next to it, then rename over the target
+const writeFileAtomic = (filePath: string, content: string) => {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  try {
+    const fd = fs.openSync(tempPath, "w")
+    try {
+      fs.writeSync(fd, content)
+      fs.fsyncSync(fd)
+    } finally {
+      fs.closeSync(fd)
+    }
+    fs.renameSync(tempPath, filePath)
+  } catch (e) {
+    fs.rmSync(tempPath, { force: true })
+    throw e
+  }
+}
+
+// Save Ralph loop state to file. Loops in memory (plus `extraLoops`, e.g. a quit loop that is still running)
+// replace their saved copies; other saved loops are kept.
+const saveRalphState = (
+  extraLoops: RalphLoop[] = [],
+): { success: boolean; message: string; todosDone?: number; movedAside?: string } => {
   try {
-    const stateDir = path.dirname(RALPH_STATE_FILE)
+    const stateDir = path.dirname(ralphStateFile)
     if (!fs.existsSync(stateDir)) {
       fs.mkdirSync(stateDir, { recursive: true })
     }
 
     const completedTodos = lastKnownTodos.filter((t: any) => t.status === "completed").length
 
-    const stateData = {
-      activeLoop: activeLoop,
+    // A file that is not valid JSON is moved aside rather than blocking every future save - its loops are not
+    // merged in, but they are not lost either. Any other read error, such as a file written by a newer plugin
+    // version, fails the save and leaves the file as it is.
+    let saved: RalphState | null = null
+    let movedAside: string | undefined
+    try {
+      saved = readStateFile()
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) throw e
+      movedAside = `${ralphStateFile}.corrupt-${Date.now()}`
+      fs.renameSync(ralphStateFile, movedAside)
+      stateFileMovedAside = movedAside
+    }
+
+    const stateData: RalphState = {
+      schemaVersion: STATE_SCHEMA_VERSION,
+      loops: {
+        ...saved?.loops,
+        ...Object.fromEntries(extraLoops.map(l => [l.id, l])),
+        ...Object.fromEntries(loops),
+      },
+      activeLoopId: activeLoopId,
       lastKnownTodos: lastKnownTodos,
       savedAt: Date.now(),
       todosDone: completedTodos,
     }
 
-    fs.writeFileSync(RALPH_STATE_FILE, JSON.stringify(stateData, null, 2))
-    return { success: true, message: `State saved to ${RALPH_STATE_FILE}`, todosDone: completedTodos }
+    writeFileAtomic(ralphStateFile, JSON.stringify(stateData, null, 2))
+    return { success: true, message: `State saved to ${ralphStateFile}`, todosDone: completedTodos, movedAside }
   } catch (e) {
     return { success: false, message: `Failed to save state: ${e instanceof Error ? e.message : String(e)}` }
   }
 }
 
-// Load Ralph loop state from file
-const loadRalphState = (): { success: boolean; message: string; loadedTodosDone?: number } => {
+// Checkpoint a loop after a state change. A failed save doesn't stop the loop - the next transition tries
+// again - but it is noted in the run log (once per run) and shown by ralph_status.
+const checkpointLoop = (loop: RalphLoop) => {
+  const result = saveRalphState([loop])
+  const log = runLogs.get(loop.id)
+  if (result.movedAside) {
+    log?.push(`Warning: the state file could not be parsed and was moved to ${result.movedAside}`)
+  }
+  if (log && !result.success && !log.includes(`Warning: ${result.message}`)) {
+    log.push(`Warning: ${result.message}`)
+  }
+  checkpointError = result.success ? undefined : result.message
+}
+
+// State file trouble met by earlier saves, for ralph_status
+const formatStateFileWarnings = (): string =>
+  [
+    stateFileMovedAside ? `Warning: the state file could not be parsed and was moved to ${stateFileMovedAside}` : "",
+    checkpointError ? `Warning: ${checkpointError}` : "",
+  ].filter(Boolean).map(l => `\n\n${l}`).join("")
+
+const journalFile = (loopId: string) => path.join(path.dirname(ralphStateFile), "ralph-journal", `${loopId}.jsonl`)
+
+// Append an event to a loop's journal. Like checkpoints, a failed write is ignored rather than stopping the run.
+const journal = (loop: RalphLoop, event: Omit<JournalEvent, "at">) => {
   try {
-    if (!fs.existsSync(RALPH_STATE_FILE)) {
-      return { success: false, message: "No saved state found" }
+    const file = journalFile(loop.id)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.appendFileSync(file, JSON.stringify({ at: Date.now(), ...event }) + "\n")
+  } catch (e) {
+    // The next event tries again
+  }
+}
+
+const journalTasks = (loop: RalphLoop, type: "task_added" | "task_updated" | "task_removed", tasks: RalphTask[]) => {
+  for (const t of tasks) {
+    journal(loop, { type, taskId: t.id, task: { id: t.id, content: t.content, dependencies: t.dependencies, parentId: t.parentId } })
+  }
+}
+
+const STATUS_EVENTS: Record<RalphTask["status"], JournalEventType> = {
+  pending: "task_reset",
+  in_progress: "task_started",
+  completed: "task_completed",
+  unverified: "task_failed",
+  failed: "task_failed",
+  timed_out: "task_failed",
+  blocked: "task_blocked",
+  cancelled: "task_cancelled",
+}
+
+// Read a loop's journal, or null if it has none. A line cut short by a crash mid-append is skipped.
+const readJournal = (loopId: string): JournalEvent[] | null => {
+  const file = journalFile(loopId)
+  if (!fs.existsSync(file)) return null
+  return fs.readFileSync(file, "utf-8").split("\n").flatMap(line => {
+    if (!line.trim()) return []
+    try {
+      return [JSON.parse(line) as JournalEvent]
+    } catch (e) {
+      return []
+    }
+  })
+}
+
+// Move a task to a new status, journal it and checkpoint, so a crashed process can resume from the last transition
+const setTaskStatus = (loop: RalphLoop, task: RalphTask, status: RalphTask["status"], error?: string) => {
+  task.status = status
+  task.error = error
+  updateParentStatus(loop, task)
+  journal(loop, {
+    type: STATUS_EVENTS[status],
+    taskId: task.id,
+    status,
+    error,
+    attempt: task.attempts?.length || undefined,
+    sessionId: status === "in_progress" ? task.sessionId : undefined,
+    blockedBy: status === "blocked" ? task.blockedBy : undefined,
+  })
+  checkpointLoop(loop)
+}
+
+// Subtasks split off a task by the planner
+const subtasksOf = (tasks: RalphTask[], taskId: string): RalphTask[] => tasks.filter(t => t.parentId === taskId)
+
+// IDs of the split tasks a task sits under, nearest first
+const ancestorsOf = (tasks: RalphTask[], task: RalphTask): string[] => {
+  const ancestors: string[] = []
+  for (let id = task.parentId; id && !ancestors.includes(id); id = tasks.find(t => t.id === id)?.parentId) {
+    ancestors.push(id)
+  }
+  return ancestors
+}
+
+// A split task's status follows its subtasks: in progress while any runs, completed once all have completed
+const updateParentStatus = (loop: RalphLoop, task: RalphTask) => {
+  for (let id = task.parentId; id; ) {
+    const parent = loop.tasks.find(t => t.id === id)
+    if (!parent) return
+    const subtasks = subtasksOf(loop.tasks, parent.id)
+    if (subtasks.length === 0) return // Every subtask was removed: the parent runs as a task again
+    const unfinished = subtasks.filter(t => t.status !== "completed")
+    if (subtasks.some(t => t.status === "in_progress")) {
+      parent.status = "in_progress"
+      parent.error = undefined
+    } else if (subtasks.some(t => t.status === "pending")) {
+      parent.status = "pending"
+      parent.error = undefined
+    } else if (unfinished.length === 0) {
+      parent.status = "completed"
+      parent.error = undefined
+    } else {
+      parent.status = "failed"
+      parent.error = `Subtasks did not complete: ${unfinished.map(t => t.id).join(", ")}`
+    }
+    id = parent.parentId
+  }
+}
+
+// The tasks a task actually waits for: its own and its ancestors' dependencies, with a dependency
+// on a split task resolved to every leaf of that task's subtree
+const resolveDependencies = (tasks: RalphTask[], task: RalphTask): string[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]))
+  const leaves = (id: string): string[] => {
+    const subtasks = subtasksOf(tasks, id)
+    return subtasks.length === 0 ? [id] : subtasks.flatMap(t => leaves(t.id))
+  }
+
+  const deps = new Set<string>()
+  for (let t: RalphTask | undefined = task; t; t = t.parentId ? byId.get(t.parentId) : undefined) {
+    for (const dep of t.dependencies || []) {
+      for (const leaf of leaves(dep)) deps.add(leaf)
+    }
+  }
+  return [...deps]
+}
+
+// Tasks in tree order - each split task followed by its subtasks - with their nesting depth
+const taskTree = (tasks: RalphTask[]): { task: RalphTask; depth: number }[] => {
+  const ids = new Set(tasks.map(t => t.id))
+  const visit = (task: RalphTask, depth: number): { task: RalphTask; depth: number }[] =>
+    [{ task, depth }, ...subtasksOf(tasks, task.id).flatMap(t => visit(t, depth + 1))]
+  return tasks.filter(t => !t.parentId || !ids.has(t.parentId)).flatMap(t => visit(t, 0))
+}
+
+// Run a loop body in the foreground, or detach it and return straight away when `background` is set.
+// The caller marks the loop running first; it is cleared and checkpointed however the body ends, and the
+// run's end is journaled and the loop's reports are written.
+const startRun = async (loop: RalphLoop, background: boolean | undefined, body: () => Promise<string>): Promise<string> => {
+  journal(loop, { type: "run_started" })
+  runningLoops.set(loop.id, loop)
+  const guarded = async () => {
+    let output: string
+    try {
+      output = await body()
+    } catch (e) {
+      output = `Ralph loop ${loop.id} stopped with an error: ${e instanceof Error ? e.message : String(e)}`
+      runLogs.get(loop.id)?.push(output)
+    } finally {
+      loop.running = false
+      runningLoops.delete(loop.id)
+      checkpointLoop(loop)
     }
+    journal(loop, { type: "run_finished", progress: formatProgress(loop) })
 
-    const data = fs.readFileSync(RALPH_STATE_FILE, "utf-8")
-    const stateData = JSON.parse(data)
+    const reports = writeLoopReports(loop)
+    if (!reports) return output
+    runLogs.get(loop.id)?.push(reports)
+    return `${output}\n\n${reports}`
+  }
+
+  if (!background) return guarded()
+
+  void guarded()
+  return `Ralph loop ${loop.id} started in the background.
+
+Use \`ralph_status --loopId ${loop.id}\` to follow progress.`
+}
+
+// Format the tail of a loop's run output for ralph_status
+const formatRunLog = (loop: RalphLoop, maxLines = 12): string => {
+  const lines = (runLogs.get(loop.id) || []).flatMap(l => l.split("\n")).filter(l => l.trim())
+  if (lines.length === 0) return ""
+  const tail = lines.slice(-maxLines).map(l => `  ${l}`)
+  return `\n\n${loop.running ? "Recent progress" : "Last run output"} (last ${tail.length} lines):\n${tail.join("\n")}`
+}
+
+// A loop saved mid-run belongs to a process that is gone: its in-flight tasks go back to pending
+const recoverInterruptedLoop = (loop: RalphLoop): number => {
+  if (!loop.running) return 0
+  loop.running = false
+
+  let recovered = 0
+  for (const task of loop.tasks) {
+    if (task.status !== "in_progress") continue
+    task.status = "pending"
+    task.error = "Interrupted: the process running this task exited"
+    journal(loop, { type: "task_reset", taskId: task.id, status: "pending", error: task.error, attempt: task.attempts?.length || undefined })
+    recovered++
+  }
+  // An interrupted iteration counts as failed; the next one starts fresh anyway
+  for (const iteration of loop.iterations || []) {
+    if (iteration.status !== "in_progress") continue
+    iteration.status = "failed"
+    iteration.error = "Interrupted: the process running this iteration exited"
+    journal(loop, { type: "iteration_finished", attempt: iteration.iteration, status: "failed", error: iteration.error })
+  }
+  return recovered
+}
+
+// Load Ralph loop state from file - every saved loop, or just `loopId`. Loops in memory are left alone, and a
+// loop still running in this process is re-attached rather than recovered from its checkpoint.
+const loadRalphState = (loopId?: string): { success: boolean; message: string; loadedTodosDone?: number; recoveredTasks?: number } => {
+  try {
+    const stateData = readStateFile()
+    if (!stateData) {
+      return { success: false, message: "No saved state found" }
+    }
+    if (loopId && !stateData.loops[loopId]) {
+      return { success: false, message: `Loop "${loopId}" not found in ${ralphStateFile}` }
+    }
 
-    activeLoop = stateData.activeLoop || null
-    lastKnownTodos = stateData.lastKnownTodos || []
+    let recoveredTasks = 0
+    const ids = loopId ? [loopId] : Object.keys(stateData.loops)
+    for (const id of ids) {
+      if (loops.has(id)) continue
+      const running = runningLoops.get(id)
+      if (running) {
+        loops.set(id, running)
+        continue
+      }
+      recoveredTasks += recoverInterruptedLoop(stateData.loops[id])
+      loops.set(id, stateData.loops[id])
+    }
+    activeLoopId = loopId || stateData.activeLoopId || activeLoopId
+    lastKnownTodos = stateData.lastKnownTodos
 
     return {
       success: true,
-      message: `State loaded from ${RALPH_STATE_FILE}`,
-      loadedTodosDone: stateData.todosDone || 0,
+      message: `State loaded from ${ralphStateFile}`,
+      loadedTodosDone: stateData.todosDone,
+      recoveredTasks,
     }
   } catch (e) {
     return { success: false, message: `Failed to load state: ${e instanceof Error ? e.message : String(e)}` }
   }
 }
 
+// Look up a loop by ID, or the active loop when no ID is given
+const resolveLoop = (loopId?: string): RalphLoop | null =>
+  (loopId ? loops.get(loopId) : activeLoopId ? loops.get(activeLoopId) : undefined) || null
+
+// Error message for a loop that could not be resolved
+const missingLoopMessage = (loopId?: string): string =>
+  loopId
+    ? `Error: No Ralph loop "${loopId}" in memory. Use ralph_list to see loops, or ralph_resume to load a saved one.`
+    : "Error: No active Ralph loop. Call ralph_start first."
+
 // Parse model string "provider/model" into ModelConfig
 const parseModelString = (modelStr: string): ModelConfig | null => {
   const parts = modelStr.split("/")
@@ -107,128 +674,1625 @@ const parseModelString = (modelStr: string): ModelConfig | null => {
   return null
 }
 
-// Analyze dependencies between tasks based on content
-const analyzeDependencies = (tasks: TaskWithDeps[]): Map<string, string[]> => {
-  const dependencyMap = new Map<string, string[]>()
-  
-  // Common patterns that indicate dependencies
-  const outputPatterns = [
-    /create\s+(?:the\s+)?(\w+)/gi,
-    /implement\s+(?:the\s+)?(\w+)/gi,
-    /build\s+(?:the\s+)?(\w+)/gi,
-    /setup\s+(?:the\s+)?(\w+)/gi,
-    /initialize\s+(?:the\s+)?(\w+)/gi,
-    /add\s+(?:the\s+)?(\w+)/gi,
-    /write\s+(?:the\s+)?(\w+)/gi,
-  ]
-  
-  const inputPatterns = [
-    /use\s+(?:the\s+)?(\w+)/gi,
-    /with\s+(?:the\s+)?(\w+)/gi,
-    /using\s+(?:the\s+)?(\w+)/gi,
-    /integrate\s+(?:the\s+)?(\w+)/gi,
-    /connect\s+(?:to\s+)?(?:the\s+)?(\w+)/gi,
-    /test\s+(?:the\s+)?(\w+)/gi,
-    /update\s+(?:the\s+)?(\w+)/gi,
-  ]
-  
-  // Extract what each task produces
-  const taskOutputs = new Map<string, Set<string>>()
-  for (const task of tasks) {
-    const outputs = new Set<string>()
-    for (const pattern of outputPatterns) {
-      const matches = task.content.matchAll(pattern)
-      for (const match of matches) {
-        if (match[1]) outputs.add(match[1].toLowerCase())
+const formatModel = (model: ModelConfig) => `${model.providerID}/${model.modelID}`
+
+// Pick the worker model for a task: its own override, then the first matching route, then the loop's model
+const resolveTaskModel = (loop: RalphLoop, task: RalphTask): ModelConfig | undefined => {
+  if (task.model) return task.model
+  const route = (loop.modelRoutes || []).find(r =>
+    (r.tag === undefined || (task.tags || []).includes(r.tag)) &&
+    (r.complexity === undefined || r.complexity === task.complexity))
+  return route ? route.model : loop.model
+}
+
+// Parse the TASK_COMPLETE / TASK_ABANDONED block from a worker's final message. The last marker on a line of
+// its own counts, and only with a Summary: line below it - a marker mentioned mid-sentence ("I cannot output
+// TASK_COMPLETE until...") is no block at all.
+const parseTaskCompletion = (text: string): TaskResult | null => {
+  const rawTail = text.slice(-1500)
+  const markers = [...text.matchAll(/^[ \t]*(TASK_COMPLETE|TASK_ABANDONED)[ \t]*$/gm)]
+  const marker = markers[markers.length - 1]
+  if (!marker) return null
+
+  const block = text.slice(marker.index).replace(/```[\s\S]*$/, "")
+  const summaryMatch = block.match(/^\s*Summary:\s*(.*)$/im)
+  if (!summaryMatch) return null
+  const summary = summaryMatch[1].trim() || undefined
+
+  // Files may be listed inline ("Files: a.ts, b.ts") or as a bullet list below
+  const files: string[] = []
+  const filesMatch = block.match(/^\s*Files:\s*(.*)$/im)
+  if (filesMatch) {
+    const inline = filesMatch[1].replace(/^\[|\]$/g, "")
+    files.push(...inline.split(",").map(f => f.trim()).filter(f => f && f.toLowerCase() !== "none"))
+    const after = block.slice((filesMatch.index || 0) + filesMatch[0].length).split("\n")
+    for (const line of after) {
+      const bullet = line.match(/^\s*[-*]\s+(.+)$/)
+      if (!bullet) {
+        if (line.trim()) break
+        continue
       }
+      files.push(bullet[1].replace(/`/g, "").trim())
     }
-    taskOutputs.set(task.id, outputs)
   }
-  
-  // Determine dependencies based on inputs matching outputs
-  for (const task of tasks) {
-    const deps: string[] = []
-    const inputs = new Set<string>()
-    
-    for (const pattern of inputPatterns) {
-      const matches = task.content.matchAll(pattern)
-      for (const match of matches) {
-        if (match[1]) inputs.add(match[1].toLowerCase())
+
+  // Only the marker decides: a summary may well say "abandoned carts" or "users who could not complete payment"
+  const abandoned = marker[1] === "TASK_ABANDONED"
+
+  return { summary, files, abandoned, rawTail }
+}
+
+// Classify a task error message so the retry policy can decide what to do with it
+const classifyFailure = (error: string): FailureClass => {
+  if (/failed to create session/i.test(error)) return "session"
+  if (/rate.?limit|too many requests|\b(429|500|502|503|504)\b|overloaded|temporarily unavailable|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed/i.test(error)) {
+    return "transient"
+  }
+  return "task"
+}
+
+// Merge loop and task retry settings over the defaults
+const resolveRetryPolicy = (loop: RalphLoop, task: RalphTask): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...loop.retryPolicy,
+  ...task.retry,
+})
+
+// Exponential backoff with equal jitter: half the delay is fixed, half is random
+const computeBackoffDelay = (policy: RetryPolicy, retryNumber: number): number => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryNumber - 1))
+  return Math.round(delay / 2 + Math.random() * (delay / 2))
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${Math.round(ms / 1000)}s`)
+
+const addUsage = (a: Usage | undefined, b: Usage | undefined): Usage => ({
+  input: (a?.input || 0) + (b?.input || 0),
+  output: (a?.output || 0) + (b?.output || 0),
+  reasoning: (a?.reasoning || 0) + (b?.reasoning || 0),
+  cacheRead: (a?.cacheRead || 0) + (b?.cacheRead || 0),
+  cacheWrite: (a?.cacheWrite || 0) + (b?.cacheWrite || 0),
+  cost: (a?.cost || 0) + (b?.cost || 0),
+})
+
+// Tokens that count against a token budget. Cache reads and writes are only reported.
+const countTokens = (usage: Usage) => usage.input + usage.output + usage.reasoning
+
+const formatTokens = (n: number) => (n >= 1e6 ? `${(n / 1e6).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n))
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`
+
+// e.g. "12.3k tokens (10.1k in, 2.2k out, 1.5k cache read), $0.0421"
+const formatUsage = (usage: Usage | undefined): string => {
+  if (!usage) return "none recorded"
+  const parts = [`${formatTokens(usage.input)} in`, `${formatTokens(usage.output)} out`]
+  if (usage.reasoning > 0) parts.push(`${formatTokens(usage.reasoning)} reasoning`)
+  if (usage.cacheRead > 0) parts.push(`${formatTokens(usage.cacheRead)} cache read`)
+  if (usage.cacheWrite > 0) parts.push(`${formatTokens(usage.cacheWrite)} cache write`)
+  return `${formatTokens(countTokens(usage))} tokens (${parts.join(", ")}), ${formatCost(usage.cost)}`
+}
+
+const formatBudget = (budget: Budget | undefined): string => {
+  const parts: string[] = []
+  if (budget?.maxTokens !== undefined) parts.push(`${formatTokens(budget.maxTokens)} tokens`)
+  if (budget?.maxCost !== undefined) parts.push(formatCost(budget.maxCost))
+  return parts.join(" or ") || "none"
+}
+
+// Why a loop may start no more work, or undefined while it is within its budget
+const checkBudget = (loop: RalphLoop): string | undefined => {
+  const { maxTokens, maxCost } = loop.budget || {}
+  const usage = addUsage(loop.usage, undefined)
+  if (maxTokens !== undefined && countTokens(usage) >= maxTokens) {
+    return `Token budget reached: ${formatTokens(countTokens(usage))} of ${formatTokens(maxTokens)} tokens used`
+  }
+  if (maxCost !== undefined && usage.cost >= maxCost) {
+    return `Cost budget reached: ${formatCost(usage.cost)} of ${formatCost(maxCost)} spent`
+  }
+  return undefined
+}
+
+// Watch one task attempt for a wall-clock timeout and for inactivity (no session events).
+// `fired` resolves with the reason once either limit is hit; without limits it never resolves.
+const startWatchdog = (options: {
+  startedAt: number
+  timeoutMs?: number
+  inactivityTimeoutMs?: number
+  lastActivityAt: () => number
+}): { fired: Promise<string>; stop: () => void } => {
+  const { startedAt, timeoutMs, inactivityTimeoutMs, lastActivityAt } = options
+  const limits = [timeoutMs, inactivityTimeoutMs].filter((ms): ms is number => ms !== undefined)
+  if (limits.length === 0) return { fired: new Promise<string>(() => {}), stop: () => {} }
+
+  let timer: ReturnType<typeof setInterval> | undefined
+  const fired = new Promise<string>(resolve => {
+    // Check often enough to stop within a quarter of the tightest limit, but at most every 5s
+    const interval = Math.max(50, Math.min(5000, Math.min(...limits) / 4))
+    timer = setInterval(() => {
+      const now = Date.now()
+      const elapsed = now - startedAt
+      const idle = now - lastActivityAt()
+      if (timeoutMs !== undefined && elapsed >= timeoutMs) {
+        resolve(`Timed out after ${formatDuration(elapsed)} (limit ${formatDuration(timeoutMs)})`)
+      } else if (inactivityTimeoutMs !== undefined && idle >= inactivityTimeoutMs) {
+        resolve(`Stalled: no session activity for ${formatDuration(idle)} (after ${formatDuration(elapsed)})`)
+      } else {
+        return
       }
+      clearInterval(timer)
+    }, interval)
+  })
+  return { fired, stop: () => clearInterval(timer) }
+}
+
+// Create a limiter that runs at most `limit` async jobs at once
+const createLimiter = (limit: number) => {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  return async <T>(job: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active++
+    } else {
+      // A finishing job hands its slot straight to the next waiter
+      await new Promise<void>(resolve => waiting.push(resolve))
     }
-    
-    // Check if any previous task produces what this task needs
-    for (const otherTask of tasks) {
-      if (otherTask.id === task.id) continue
-      const otherOutputs = taskOutputs.get(otherTask.id) || new Set()
-      
-      for (const input of inputs) {
-        if (otherOutputs.has(input)) {
-          deps.push(otherTask.id)
-          break
-        }
-      }
+    try {
+      return await job()
+    } finally {
+      const next = waiting.shift()
+      if (next) next()
+      else active--
     }
-    
-    dependencyMap.set(task.id, deps)
   }
-  
-  return dependencyMap
 }
 
-// Build execution layers - tasks in same layer can run in parallel
-const buildExecutionLayers = (tasks: RalphTask[]): RalphTask[][] => {
-  const taskMap = new Map(tasks.map(t => [t.id, t]))
-  const completed = new Set<string>()
-  const layers: RalphTask[][] = []
-  const remaining = new Set(tasks.map(t => t.id))
-  
-  // Safety limit to prevent infinite loops
-  let iterations = 0
-  const maxIterations = tasks.length + 1
-  
-  while (remaining.size > 0 && iterations < maxIterations) {
-    iterations++
-    const layer: RalphTask[] = []
-    
-    for (const taskId of remaining) {
-      const task = taskMap.get(taskId)!
-      const deps = task.dependencies || []
-      
-      // Check if all dependencies are completed
-      const allDepsCompleted = deps.every(dep => completed.has(dep))
-      if (allDepsCompleted) {
-        layer.push(task)
-      }
+// Build the worker pool for one run: the loop-wide limit plus optional per-provider limits.
+// Provider slots are taken before global ones so a saturated provider never holds global slots.
+const createTaskPool = (loop: RalphLoop) => {
+  const global = createLimiter(loop.maxConcurrency ?? Infinity)
+  const providers = new Map<string, ReturnType<typeof createLimiter>>()
+
+  return <T>(providerID: string | undefined, job: () => Promise<T>): Promise<T> => {
+    const providerLimit = providerID ? loop.providerConcurrency?.[providerID] : undefined
+    if (!providerID || providerLimit === undefined) return global(job)
+
+    let limiter = providers.get(providerID)
+    if (!limiter) {
+      limiter = createLimiter(providerLimit)
+      providers.set(providerID, limiter)
     }
-    
-    // If no tasks can be added (circular dependency or other issue), 
-    // add all remaining as a single sequential layer
-    if (layer.length === 0 && remaining.size > 0) {
-      for (const taskId of remaining) {
-        layer.push(taskMap.get(taskId)!)
+    return limiter(() => global(job))
+  }
+}
+
+// Run a command without a shell and collect its output. Never throws: failures come back as a non-zero code.
+// A command that runs past timeoutMs is killed and reported as failed.
+const runCommand = (command: string, args: string[], cwd: string, timeoutMs?: number): Promise<{ code: number; stdout: string; stderr: string }> =>
+  new Promise(resolve => {
+    childProcess.execFile(command, args, { cwd, maxBuffer: 16 * 1024 * 1024, timeout: timeoutMs }, (error, stdout, stderr) => {
+      const exitCode = (error as { code?: unknown } | null)?.code
+      const killed = error && (error as { killed?: boolean }).killed && timeoutMs
+      resolve({
+        code: !error ? 0 : typeof exitCode === "number" ? exitCode : 1,
+        stdout: String(stdout),
+        stderr: (String(stderr) || (error && typeof exitCode !== "number" ? error.message : "")) +
+          (killed ? `\n(killed after ${formatDuration(timeoutMs)} timeout)` : ""),
+      })
+    })
+  })
+
+const git = (args: string[], cwd: string) => runCommand("git", args, cwd)
+
+type VerificationFailure = { command: string; code: number; output: string }
+
+// Run verification commands in order through the shell, stopping at the first one that fails
+const runVerification = async (commands: string[], cwd: string, timeoutMs?: number): Promise<VerificationFailure | undefined> => {
+  for (const command of commands) {
+    const result = await runCommand("sh", ["-c", command], cwd, timeoutMs ?? DEFAULT_VERIFY_TIMEOUT_MS)
+    if (result.code !== 0) {
+      const output = [result.stdout.trim(), result.stderr.trim()].filter(Boolean).join("\n")
+      return {
+        command,
+        code: result.code,
+        output: output.length > VERIFY_OUTPUT_LIMIT ? `...${output.slice(-VERIFY_OUTPUT_LIMIT)}` : output,
       }
     }
-    
-    // Mark layer tasks as completed and remove from remaining
-    for (const task of layer) {
-      completed.add(task.id)
-      remaining.delete(task.id)
+  }
+  return undefined
+}
+
+const formatVerificationFailure = (failure: VerificationFailure): string =>
+  `Verification failed: \`${failure.command}\` exited with ${failure.code}${failure.output ? `\n${failure.output}` : ""}`
+
+// One-line summary of a loop's verification commands for ralph_status
+const formatVerificationSettings = (loop: RalphLoop): string => {
+  const { afterTask = [], afterLayer = [], fixAttempts = 0 } = loop.verification || {}
+  const parts: string[] = []
+  if (afterTask.length > 0) parts.push(`after each task: ${afterTask.join(" && ")}${fixAttempts > 0 ? ` (up to ${fixAttempts} fix-up sessions)` : ""}`)
+  if (afterLayer.length > 0) parts.push(`after each layer: ${afterLayer.join(" && ")}`)
+  return parts.join("; ") || "none"
+}
+
+// Worktree isolation needs a git repository with at least one commit to branch from.
+// Returns a reason when the directory cannot be used.
+const checkWorktreeSupport = async (baseDir: string): Promise<string | undefined> => {
+  const head = await git(["rev-parse", "--verify", "HEAD"], baseDir)
+  if (head.code === 0) return undefined
+  const inside = await git(["rev-parse", "--is-inside-work-tree"], baseDir)
+  return inside.code === 0
+    ? `Worktree isolation needs at least one commit in ${baseDir} to branch from.`
+    : `Worktree isolation needs a git repository, but ${baseDir} is not one.`
+}
+
+// Merges into the main tree must not overlap, whichever loop they come from
+const mergeLock = createLimiter(1)
+
+// Create the worktree and branch a task attempt works in, based on the main tree's current HEAD.
+// Each attempt gets a branch of its own, so the work an earlier attempt left unmerged is never reset;
+// the worktree itself is reused. Worktrees live next to the state file so they never show up inside the project.
+const createTaskWorktree = async (baseDir: string, loop: RalphLoop, task: RalphTask, attempt: number): Promise<{ path: string; branch: string }> => {
+  const safeId = task.id.replace(/[^\w.-]+/g, "_")
+  const branch = `ralph/${loop.id}/${safeId}-${attempt}`
+  const worktreePath = path.join(path.dirname(ralphStateFile), "worktrees", loop.id, safeId)
+
+  if (fs.existsSync(worktreePath)) {
+    await git(["worktree", "remove", "--force", worktreePath], baseDir)
+  }
+  await git(["worktree", "prune"], baseDir)
+
+  const added = await git(["worktree", "add", "-b", branch, worktreePath, "HEAD"], baseDir)
+  if (added.code !== 0) {
+    throw new Error(`Failed to create worktree for ${task.id}: ${added.stderr.trim()}`)
+  }
+  return { path: worktreePath, branch }
+}
+
+// Commit everything a task changed in its worktree onto its branch. Returns false when there was nothing to commit.
+const commitTaskWorktree = async (worktree: { path: string; branch: string }, task: RalphTask): Promise<boolean> => {
+  await git(["add", "-A"], worktree.path)
+  const staged = await git(["diff", "--cached", "--quiet"], worktree.path)
+  if (staged.code === 0) return false
+
+  const committed = await git(["commit", "-m", `ralph: ${task.id} - ${task.content.slice(0, 72)}`], worktree.path)
+  if (committed.code !== 0) {
+    throw new Error(`Failed to commit worktree changes: ${committed.stderr.trim() || committed.stdout.trim()}`)
+  }
+  return true
+}
+
+// Commit a task's worktree and merge its branch into the main tree.
+// On a conflict the merge is aborted, the conflicting files are returned and the branch is kept.
+const mergeTaskWorktree = async (baseDir: string, worktree: { path: string; branch: string }, task: RalphTask): Promise<{ merged: boolean; conflicts: string[]; error?: string }> =>
+  mergeLock(async () => {
+    if (!(await commitTaskWorktree(worktree, task))) {
+      return { merged: true, conflicts: [] } // Nothing to merge
     }
-    
-    if (layer.length > 0) {
-      layers.push(layer)
+
+    const merge = await git(["merge", "--no-ff", "--no-edit", worktree.branch], baseDir)
+    if (merge.code === 0) {
+      return { merged: true, conflicts: [] }
+    }
+
+    const unmerged = await git(["diff", "--name-only", "--diff-filter=U"], baseDir)
+    const conflicts = unmerged.stdout.split("\n").map(f => f.trim()).filter(Boolean)
+    await git(["merge", "--abort"], baseDir)
+    if (conflicts.length === 0) {
+      return { merged: false, conflicts, error: `Merge failed: ${merge.stderr.trim() || merge.stdout.trim()}` }
     }
+    return { merged: false, conflicts }
+  })
+
+// Remove a task's worktree. Merged branches are deleted; unmerged work is committed and its branch kept for inspection.
+const removeTaskWorktree = async (baseDir: string, worktree: { path: string; branch: string }, task: RalphTask, merged: boolean) => {
+  if (!merged) {
+    await commitTaskWorktree(worktree, task).catch(() => false)
+  }
+  await git(["worktree", "remove", "--force", worktree.path], baseDir)
+  if (merged) {
+    await git(["branch", "-D", worktree.branch], baseDir)
   }
-  
-  return layers
 }
 
-export const RalphWiggumPlugin: Plugin = async ({ client }) => {
+// Describe a loop's concurrency settings for run output
+const formatConcurrency = (loop: Pick<RalphLoop, "maxConcurrency" | "providerConcurrency">): string => {
+  if (loop.maxConcurrency === 1) return "SERIAL (one task at a time)"
+  const limit = loop.maxConcurrency ? `max ${loop.maxConcurrency} concurrent` : "max concurrency"
+  const providers = Object.entries(loop.providerConcurrency || {}).map(([id, n]) => `${id}: ${n}`)
+  return `PARALLEL (${limit}${providers.length > 0 ? `; per provider ${providers.join(", ")}` : ""})`
+}
 
-  // Get the model from a session by fetching its messages
-  const getSessionModel = async (sessionId: string): Promise<ModelConfig | undefined> => {
-    try {
+// Format the attempt history of a task, one line per attempt
+const formatAttempts = (task: RalphTask, indent: string): string[] =>
+  (task.attempts || []).map(a => {
+    const duration = a.finishedAt ? ` in ${Math.round((a.finishedAt - a.startedAt) / 1000)}s` : ""
+    const failure = a.failureClass ? ` [${a.failureClass}]` : ""
+    const fixUps = a.fixUpSessions && a.fixUpSessions.length > 0 ? `, fix-ups: ${a.fixUpSessions.join(", ")}` : ""
+    const branch = a.branch ? `, branch: ${a.branch}` : ""
+    return `${indent}Attempt ${a.attempt}: ${a.status}${failure}${duration} (session: ${a.sessionId || "N/A"}${fixUps}${branch})${a.error ? ` - ${a.error}` : ""}`
+  })
+
+// Format the skipped tasks of a loop with the failure that caused each skip
+const formatBlockedTasks = (loop: RalphLoop, indent: string): string[] =>
+  loop.tasks.filter(t => t.status === "blocked").map(t => {
+    const cause = loop.tasks.find(c => c.id === t.blockedBy)
+    const reason = cause ? `${cause.status}${cause.error ? `: ${cause.error}` : ""}` : "did not complete"
+    return `${indent}${t.id} skipped - ${t.blockedBy} ${reason}`
+  })
+
+// Format the end-of-run counts shared by ralph_auto and ralph_run
+const formatRunSummary = (loop: RalphLoop): string[] => {
+  const count = (status: RalphTask["status"]) => loop.tasks.filter(t => t.status === status).length
+  const lines = [`Completed: ${count("completed")}/${loop.tasks.length}`]
+  if (count("failed") > 0) lines.push(`Failed: ${count("failed")}`)
+  if (count("timed_out") > 0) lines.push(`Timed out: ${count("timed_out")}`)
+  if (count("unverified") > 0) lines.push(`Unverified: ${count("unverified")}`)
+  if (count("cancelled") > 0) lines.push(`Cancelled: ${count("cancelled")}`)
+
+  const blockedTasks = formatBlockedTasks(loop, "  ")
+  if (blockedTasks.length > 0) {
+    lines.push(`Blocked: ${blockedTasks.length}`)
+    lines.push(...blockedTasks)
+  }
+
+  if (loop.stopRequested) {
+    const how = loop.stopRequested === "pause" ? "Paused by ralph_pause" : "Cancelled by ralph_cancel"
+    lines.push(`${how} - ${count("pending")} task(s) left pending. Call ralph_run to continue.`)
+  }
+
+  lines.push(`Usage: ${formatUsage(loop.usage)}`)
+  const overBudget = checkBudget(loop)
+  if (overBudget && count("pending") > 0) {
+    lines.push(`${overBudget} - ${count("pending")} task(s) left pending. Raise --maxTokens / --maxCost and call ralph_run to continue.`)
+  }
+  return lines
+}
+
+// Format the per-task outcome lines used in run output
+const formatTaskOutcome = (task: RalphTask): string[] => {
+  const lines = [`Session: ${task.sessionId || "N/A"}`]
+  if (task.status === "completed") {
+    lines.push(`Status: COMPLETED`)
+  } else if (task.status === "timed_out") {
+    lines.push(`Status: TIMED OUT - ${task.error || "no details"}`)
+  } else if (task.status === "unverified") {
+    lines.push(`Status: UNVERIFIED - ${task.error || "No TASK_COMPLETE block found"}`)
+  } else if (task.status === "blocked") {
+    lines.push(`Status: BLOCKED - skipped because ${task.blockedBy || "an earlier task"} did not complete`)
+  } else if (task.status === "cancelled") {
+    lines.push(`Status: CANCELLED`)
+  } else if (task.status === "pending") {
+    lines.push(`Status: PENDING - ${task.error || "will run on the next ralph_run"}`)
+  } else {
+    lines.push(`Status: FAILED - ${task.error || "Unknown error"}`)
+  }
+  if (task.result?.summary) lines.push(`Summary: ${task.result.summary}`)
+  if (task.result && task.result.files.length > 0) lines.push(`Files: ${task.result.files.join(", ")}`)
+  if (task.modelUsed) lines.push(`Model: ${formatModel(task.modelUsed)}`)
+  if (task.usage) lines.push(`Usage: ${formatUsage(task.usage)}`)
+  if (task.branch) lines.push(`Unmerged branch: ${task.branch}`)
+  const fixUps = task.attempts?.[task.attempts.length - 1]?.fixUpSessions
+  if (fixUps && fixUps.length > 0) lines.push(`Fix-up sessions: ${fixUps.join(", ")}`)
+  if (task.attempts && task.attempts.length > 1) {
+    lines.push(`Attempts: ${task.attempts.length}`)
+    lines.push(...formatAttempts(task, "  "))
+  }
+  return lines
+}
+
+// Summarize task counts for a loop, e.g. "3/5 (1 pending, 1 in progress, 0 failed)"
+const formatProgress = (loop: RalphLoop): string => {
+  if (loop.iterate) {
+    const iterations = loop.iterations || []
+    return `${iterations.length}/${loop.iterate.maxIterations} iterations${iterations.some(i => i.status === "done") ? " (done)" : ""}`
+  }
+  const count = (status: RalphTask["status"]) => loop.tasks.filter(t => t.status === status).length
+  const unverified = count("unverified")
+  const timedOut = count("timed_out")
+  const blocked = count("blocked")
+  const cancelled = count("cancelled")
+  return `${count("completed")}/${loop.tasks.length} (${count("pending")} pending, ${count("in_progress")} in progress, ${count("failed")} failed${timedOut > 0 ? `, ${timedOut} timed out` : ""}${unverified > 0 ? `, ${unverified} unverified` : ""}${blocked > 0 ? `, ${blocked} blocked` : ""}${cancelled > 0 ? `, ${cancelled} cancelled` : ""})`
+}
+
+// Describe a ralph_loop completion check, e.g. 'marker "RALPH_COMPLETE" and `npm test` exits 0'
+const formatCompletionCheck = (settings: IterationSettings): string =>
+  [
+    settings.completionMarker ? `final message ends with "${settings.completionMarker}"` : "",
+    settings.completionCommand ? `\`${settings.completionCommand}\` exits 0` : "",
+  ].filter(Boolean).join(" and ")
+
+// Format one ralph_loop iteration for progress output and ralph_status
+const formatIteration = (iteration: LoopIteration, indent: string): string => {
+  const duration = iteration.finishedAt ? ` in ${formatDuration(iteration.finishedAt - iteration.startedAt)}` : ""
+  const usage = iteration.usage ? ` [${formatTokens(countTokens(iteration.usage))} tokens, ${formatCost(iteration.usage.cost)}]` : ""
+  return `${indent}Iteration ${iteration.iteration}: ${iteration.status}${duration}${usage} (session: ${iteration.sessionId || "N/A"})${iteration.error ? ` - ${iteration.error}` : ""}`
+}
+
+// Decide whether a ralph_loop iteration finished the job. The marker must be the last non-empty line, as the
+// prompt asks: "I'm not writing RALPH_COMPLETE yet" mentions it without claiming it.
+const checkIterationComplete = async (settings: IterationSettings, finalMessage: string, cwd: string): Promise<boolean> => {
+  const lastLine = finalMessage.split("\n").map(l => l.trim()).filter(Boolean).pop()
+  if (settings.completionMarker && lastLine !== settings.completionMarker) return false
+  if (settings.completionCommand) {
+    const result = await runCommand("sh", ["-c", settings.completionCommand], cwd, DEFAULT_VERIFY_TIMEOUT_MS)
+    return result.code === 0
+  }
+  return true
+}
+
+// The loop's prompt plus what each ralph_loop iteration needs to know about the loop around it
+const formatIterationPrompt = (loop: RalphLoop, iteration: number): string => {
+  const settings = loop.iterate!
+  const rules = [
+    "- Check the current state of the project first: earlier iterations may have done part of the work",
+    "- Continue from there and make as much progress as you can in this session",
+  ]
+  if (settings.completionMarker) {
+    rules.push(`- When the WHOLE task is done, end your final message with ${settings.completionMarker}`)
+    rules.push(`- Do NOT write ${settings.completionMarker} while any part of the task is unfinished`)
+  }
+  if (settings.completionCommand) {
+    rules.push(`- After this session \`${settings.completionCommand}\` is run; the loop stops once it exits 0`)
+  }
+
+  return `${loop.originalPrompt}
+
+---
+## RALPH LOOP (iteration ${iteration} of at most ${settings.maxIterations})
+This prompt runs in a fresh session over and over until the task is done.
+${rules.join("\n")}`
+}
+
+const REPORT_EXTENSIONS: Record<ReportFormat, string> = { markdown: "md", json: "json", junit: "xml" }
+
+// Where a loop's report goes unless the caller names a file
+const defaultReportPath = (loop: RalphLoop, format: ReportFormat): string =>
+  path.join(loop.reports?.dir || path.join(path.dirname(ralphStateFile), "ralph-reports"), `${loop.id}.${REPORT_EXTENSIONS[format]}`)
+
+// Time spent in a task's attempts, retries and fix-ups included
+const taskDuration = (task: RalphTask): number =>
+  (task.attempts || []).reduce((sum, a) => sum + (a.finishedAt ? a.finishedAt - a.startedAt : 0), 0)
+
+// Every session a task ran in, oldest first
+const taskSessions = (task: RalphTask): string[] => {
+  const sessions = (task.attempts || []).flatMap(a => [a.sessionId, ...(a.fixUpSessions || [])]).filter((id): id is string => !!id)
+  return sessions.length > 0 || !task.sessionId ? sessions : [task.sessionId]
+}
+
+// Wall-clock time from the first task attempt or iteration to the last one's end
+const loopDuration = (loop: RalphLoop): number => {
+  const runs = [...loop.tasks.flatMap(t => t.attempts || []), ...(loop.iterations || [])]
+  if (runs.length === 0) return 0
+  const start = Math.min(...runs.map(r => r.startedAt))
+  return Math.max(...runs.map(r => r.finishedAt ?? r.startedAt)) - start
+}
+
+// First line of a task, shortened for table cells and test case names
+const taskTitle = (task: RalphTask, maxLength = 80): string => {
+  const line = task.content.trim().split("\n")[0]
+  return line.length > maxLength ? `${line.slice(0, maxLength - 3)}...` : line
+}
+
+// The whole loop as plain data, for scripts
+const buildJsonReport = (loop: RalphLoop) => ({
+  reportVersion: 1,
+  generatedAt: new Date().toISOString(),
+  loop: {
+    id: loop.id,
+    prompt: loop.originalPrompt,
+    mode: loop.iterate ? "iterate" : "tasks",
+    createdAt: new Date(loop.createdAt).toISOString(),
+    model: loop.model && formatModel(loop.model),
+    running: loop.running,
+    stopRequested: loop.stopRequested,
+    progress: formatProgress(loop),
+    durationMs: loopDuration(loop),
+    usage: loop.usage,
+    planningUsage: loop.planningUsage,
+    budget: loop.budget,
+  },
+  tasks: taskTree(loop.tasks).map(({ task: t, depth }) => ({
+    id: t.id,
+    content: t.content,
+    status: t.status,
+    parentId: t.parentId,
+    depth,
+    dependencies: t.dependencies || [],
+    outputs: t.outputs,
+    sessions: taskSessions(t),
+    durationMs: taskDuration(t),
+    error: t.error,
+    blockedBy: t.blockedBy,
+    summary: t.result?.summary,
+    files: t.result?.files || [],
+    model: t.modelUsed && formatModel(t.modelUsed),
+    usage: t.usage,
+    branch: t.branch,
+    conflicts: t.conflicts,
+    attempts: (t.attempts || []).map(a => ({
+      ...a,
+      startedAt: new Date(a.startedAt).toISOString(),
+      finishedAt: a.finishedAt ? new Date(a.finishedAt).toISOString() : undefined,
+      durationMs: a.finishedAt ? a.finishedAt - a.startedAt : undefined,
+    })),
+  })),
+  iterations: (loop.iterations || []).map(i => ({
+    ...i,
+    startedAt: new Date(i.startedAt).toISOString(),
+    finishedAt: i.finishedAt ? new Date(i.finishedAt).toISOString() : undefined,
+    durationMs: i.finishedAt ? i.finishedAt - i.startedAt : undefined,
+  })),
+})
+
+// The loop as Markdown, for pasting into a PR
+const formatMarkdownReport = (loop: RalphLoop): string => {
+  const cell = (text: string) => text.replace(/</g, "&lt;").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")
+  const fence = (text: string) => ["```", text.trim(), "```"]
+  const lines = [
+    `# Ralph report: ${loop.id}`,
+    ``,
+    `- **Prompt:** ${cell(loop.originalPrompt)}`,
+    `- **Progress:** ${formatProgress(loop)}`,
+    `- **Duration:** ${formatDuration(loopDuration(loop))}`,
+    `- **Usage:** ${formatUsage(loop.usage)}`,
+    `- **Generated:** ${new Date().toISOString()}`,
+  ]
+
+  if (loop.iterate) {
+    const iterations = loop.iterations || []
+    lines.push(``, `## Iterations`, ``, `Completion check: ${formatCompletionCheck(loop.iterate)}`, ``)
+    lines.push(`| # | Status | Session | Duration | Cost |`, `|---|---|---|---|---|`)
+    for (const i of iterations) {
+      const duration = i.finishedAt ? formatDuration(i.finishedAt - i.startedAt) : "-"
+      lines.push(`| ${i.iteration} | ${i.status} | ${i.sessionId ? `\`${i.sessionId}\`` : "-"} | ${duration} | ${i.usage ? formatCost(i.usage.cost) : "-"} |`)
+    }
+    for (const i of iterations.filter(i => i.error)) {
+      lines.push(``, `### Iteration ${i.iteration} error`, ``, ...fence(i.error!))
+    }
+    const last = iterations[iterations.length - 1]
+    if (last?.tail) lines.push(``, `### Last message (iteration ${last.iteration})`, ``, ...fence(last.tail))
+    return lines.join("\n") + "\n"
+  }
+
+  const tree = taskTree(loop.tasks)
+  lines.push(``, `## Tasks`, ``)
+  lines.push(`| Task | Status | Depends on | Sessions | Duration | Cost |`, `|---|---|---|---|---|---|`)
+  for (const { task: t, depth } of tree) {
+    const deps = (t.dependencies || []).map(d => `\`${d}\``).join(", ") || "-"
+    const sessions = taskSessions(t).map(s => `\`${s}\``).join(", ") || "-"
+    const duration = taskDuration(t) > 0 ? formatDuration(taskDuration(t)) : "-"
+    lines.push(`| ${"&nbsp;&nbsp;".repeat(depth)}\`${t.id}\` ${cell(taskTitle(t))} | ${t.status} | ${deps} | ${sessions} | ${duration} | ${t.usage ? formatCost(t.usage.cost) : "-"} |`)
+  }
+
+  lines.push(``, `## Details`)
+  for (const { task: t } of tree) {
+    lines.push(``, `### ${t.id}: ${cell(taskTitle(t))}`, ``, `- Status: ${t.status}${t.blockedBy ? ` (blocked by \`${t.blockedBy}\`)` : ""}`)
+    if (t.result?.summary) lines.push(`- Summary: ${cell(t.result.summary)}`)
+    if (t.result && t.result.files.length > 0) lines.push(`- Files: ${t.result.files.map(f => `\`${f}\``).join(", ")}`)
+    if (t.modelUsed) lines.push(`- Model: ${formatModel(t.modelUsed)}`)
+    if (t.usage) lines.push(`- Usage: ${formatUsage(t.usage)}`)
+    if (t.branch) lines.push(`- Unmerged branch: \`${t.branch}\``)
+    if (t.conflicts && t.conflicts.length > 0) lines.push(`- Conflicts: ${t.conflicts.map(f => `\`${f}\``).join(", ")}`)
+    if (t.attempts && t.attempts.length > 1) lines.push(`- Attempts:`, ...formatAttempts(t, "  - ").map(cell))
+    if (t.error) lines.push(``, ...fence(t.error))
+  }
+  return lines.join("\n") + "\n"
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+// The loop as JUnit XML: one test case per executable task (or per iteration), for CI dashboards.
+// Completed tasks pass, failed/timed out/unverified ones fail, and tasks that never finished are skipped.
+const formatJUnitReport = (loop: RalphLoop): string => {
+  type TestCase = { name: string; durationMs: number; failure?: { type: string; message: string }; skipped?: string; output: string[] }
+
+  const cases: TestCase[] = loop.iterate
+    ? (loop.iterations || []).map(i => ({
+        name: `iteration ${i.iteration}`,
+        durationMs: i.finishedAt ? i.finishedAt - i.startedAt : 0,
+        failure: i.status === "failed" || i.status === "timed_out" ? { type: i.status, message: i.error || i.status } : undefined,
+        skipped: i.status === "cancelled" || i.status === "in_progress" ? i.status : undefined,
+        output: [`Status: ${i.status}`, `Session: ${i.sessionId || "N/A"}`, ...(i.usage ? [`Usage: ${formatUsage(i.usage)}`] : [])],
+      }))
+    : loop.tasks.filter(t => subtasksOf(loop.tasks, t.id).length === 0).map(t => {
+        const failed = t.status === "failed" || t.status === "timed_out" || t.status === "unverified"
+        const skipped = t.status === "blocked" ? `Blocked by ${t.blockedBy || "an earlier task"}`
+          : t.status === "cancelled" ? "Cancelled"
+          : t.status === "pending" ? `Not run${t.error ? `: ${t.error}` : ""}`
+          : t.status === "in_progress" ? "Still running"
+          : undefined
+        return {
+          name: `${t.id}: ${taskTitle(t, 120)}`,
+          durationMs: taskDuration(t),
+          failure: failed ? { type: t.status, message: t.error || t.status } : undefined,
+          skipped,
+          output: [`Sessions: ${taskSessions(t).join(", ") || "N/A"}`, ...formatTaskOutcome(t).slice(1)],
+        }
+      })
+
+  const seconds = (ms: number) => (ms / 1000).toFixed(3)
+  const failures = cases.filter(c => c.failure).length
+  const skipped = cases.filter(c => c.skipped !== undefined).length
+  const time = seconds(loopDuration(loop))
+  const counts = `tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${time}"`
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="ralph" ${counts}>`,
+    `  <testsuite name="${escapeXml(loop.id)}" ${counts} timestamp="${new Date(loop.createdAt).toISOString()}">`,
+    `    <properties>`,
+    `      <property name="prompt" value="${escapeXml(loop.originalPrompt)}"/>`,
+    `      <property name="usage" value="${escapeXml(formatUsage(loop.usage))}"/>`,
+    `    </properties>`,
+  ]
+  for (const c of cases) {
+    lines.push(`    <testcase classname="ralph.${escapeXml(loop.id)}" name="${escapeXml(c.name)}" time="${seconds(c.durationMs)}">`)
+    if (c.failure) lines.push(`      <failure type="${c.failure.type}" message="${escapeXml(c.failure.message.split("\n")[0])}">${escapeXml(c.failure.message)}</failure>`)
+    if (c.skipped !== undefined) lines.push(`      <skipped message="${escapeXml(c.skipped)}"/>`)
+    lines.push(`      <system-out>${escapeXml(c.output.join("\n"))}</system-out>`)
+    lines.push(`    </testcase>`)
+  }
+  lines.push(`  </testsuite>`, `</testsuites>`)
+  return lines.join("\n") + "\n"
+}
+
+const formatReport = (loop: RalphLoop, format: ReportFormat): string =>
+  format === "json" ? JSON.stringify(buildJsonReport(loop), null, 2) + "\n"
+    : format === "junit" ? formatJUnitReport(loop)
+    : formatMarkdownReport(loop)
+
+const writeReport = (file: string, content: string) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  writeFileAtomic(file, content)
+}
+
+// Write a loop's configured reports once a run ends. Returns a line for the run output ("" when reports are off);
+// a failed write is reported, never thrown.
+const writeLoopReports = (loop: RalphLoop): string => {
+  const formats = loop.reports?.formats ?? REPORT_FORMATS
+  if (formats.length === 0) return ""
+  try {
+    return `Reports: ${formats.map(format => {
+      const file = defaultReportPath(loop, format)
+      writeReport(file, formatReport(loop, format))
+      return file
+    }).join(", ")}`
+  } catch (e) {
+    return `Failed to write reports: ${e instanceof Error ? e.message : String(e)}`
+  }
+}
+
+// Rebuild a loop from journal events. Fields the journal does not record (settings, worker summaries, usage)
+// are left unset; parent tasks follow their subtasks as they do live.
+const replayJournal = (loopId: string, events: JournalEvent[]): RalphLoop => {
+  const loop: RalphLoop = { id: loopId, originalPrompt: "", tasks: [], currentTaskIndex: -1, createdAt: events[0]?.at ?? 0, running: false }
+
+  for (const e of events) {
+    const task = e.taskId ? loop.tasks.find(t => t.id === e.taskId) : undefined
+    switch (e.type) {
+      case "loop_created":
+        loop.originalPrompt = e.prompt || ""
+        loop.createdAt = e.at
+        if (e.mode === "iterate") loop.iterations = []
+        break
+      case "run_started":
+        loop.running = true
+        break
+      case "run_finished":
+        loop.running = false
+        break
+      case "task_added":
+        if (e.task) loop.tasks.push({ ...e.task, status: "pending" })
+        break
+      case "task_updated":
+        if (task && e.task) Object.assign(task, e.task)
+        break
+      case "task_removed":
+        loop.tasks = loop.tasks.filter(t => t.id !== e.taskId)
+        break
+      case "session_created": {
+        const attempt = task?.attempts?.find(a => a.attempt === e.attempt)
+        if (e.role === "fix_up" && attempt && e.sessionId) attempt.fixUpSessions = [...(attempt.fixUpSessions || []), e.sessionId]
+        break
+      }
+      case "task_retried":
+        break
+      case "iteration_started":
+        loop.iterations = [...(loop.iterations || []), { iteration: e.attempt || (loop.iterations?.length || 0) + 1, startedAt: e.at, status: "in_progress" }]
+        break
+      case "iteration_finished": {
+        const iteration = loop.iterations?.find(i => i.iteration === e.attempt)
+        if (!iteration) break
+        iteration.status = e.status as LoopIteration["status"]
+        iteration.error = e.error
+        iteration.sessionId = e.sessionId || iteration.sessionId
+        iteration.finishedAt = e.at
+        break
+      }
+      default: {
+        // A task status change
+        if (!task || !e.status) break
+        const status = e.status as RalphTask["status"]
+        if (status === "in_progress") {
+          task.sessionId = e.sessionId
+          task.attempts = [...(task.attempts || []), { attempt: e.attempt || (task.attempts?.length || 0) + 1, sessionId: e.sessionId, startedAt: e.at, status }]
+        } else if (e.attempt && status !== "pending" && status !== "blocked") {
+          // Attempts that failed before their session existed were never started
+          let attempt = task.attempts?.find(a => a.attempt === e.attempt)
+          if (!attempt) {
+            attempt = { attempt: e.attempt, startedAt: e.at, status: "in_progress" }
+            task.attempts = [...(task.attempts || []), attempt]
+          }
+          if (attempt.status === "in_progress") {
+            attempt.status = status
+            attempt.error = e.error
+            attempt.finishedAt = e.at
+          }
+        }
+        task.status = status
+        task.error = e.error
+        task.blockedBy = e.blockedBy
+        updateParentStatus(loop, task)
+      }
+    }
+  }
+  return loop
+}
+
+// One journal event as a line of prose
+const describeEvent = (e: JournalEvent): string => {
+  const attempt = e.attempt && e.attempt > 1 ? ` (attempt ${e.attempt})` : ""
+  const error = e.error ? `: ${e.error.split("\n")[0]}` : ""
+  switch (e.type) {
+    case "loop_created":
+      return `loop created (${e.mode === "iterate" ? "same prompt until done" : "task list"}): "${e.prompt}"`
+    case "run_started":
+      return "run started"
+    case "run_finished":
+      return `run finished - ${e.progress}`
+    case "task_added":
+    case "task_updated": {
+      const deps = e.task?.dependencies && e.task.dependencies.length > 0 ? ` [depends: ${e.task.dependencies.join(", ")}]` : ""
+      return `${e.taskId} ${e.type === "task_added" ? "added" : "updated"}: ${e.task?.content.split("\n")[0]}${deps}`
+    }
+    case "task_removed":
+      return `${e.taskId} removed`
+    case "session_created":
+      return e.role === "planner" ? `planning session ${e.sessionId} created`
+        : e.role === "iteration" ? `iteration ${e.attempt} session ${e.sessionId} created`
+        : `${e.taskId} ${e.role === "fix_up" ? "fix-up" : "worker"} session ${e.sessionId} created${attempt}`
+    case "task_started":
+      return `${e.taskId} started${attempt}`
+    case "task_retried":
+      return `${e.taskId} retrying as attempt ${e.attempt} in ${formatDuration(e.delayMs || 0)}${error}`
+    case "task_blocked":
+      return `${e.taskId} blocked by ${e.blockedBy || "an earlier task"}`
+    case "task_reset":
+      return `${e.taskId} back to pending${error}`
+    case "iteration_started":
+      return `iteration ${e.attempt} started`
+    case "iteration_finished":
+      return `iteration ${e.attempt} ${e.status}${error}`
+    default:
+      return `${e.taskId} ${e.status}${attempt}${error}`
+  }
+}
+
+// Format journal events as a timeline: event number, time since the first event, clock time and what happened
+const formatTimeline = (events: JournalEvent[], include: (event: JournalEvent) => boolean = () => true): string[] => {
+  const start = events[0]?.at ?? 0
+  return events.flatMap((e, i) => include(e)
+    ? [`${`#${i + 1}`.padStart(5)} ${`+${formatDuration(e.at - start)}`.padStart(7)}  ${new Date(e.at).toLocaleTimeString()}  ${describeEvent(e)}`]
+    : [])
+}
+
+// File paths with a known extension, e.g. src/auth.ts or ./package.json
+const FILE_PATTERN = /[\w./-]*[\w-]\.(?:[cm]?[jt]sx?|json|md|py|go|rs|java|kt|rb|php|cs|cpp|c|h|css|scss|html|vue|svelte|sql|ya?ml|toml|sh|prisma|graphql|proto)\b/g
+
+// Code identifiers: anything in backticks, camelCase, PascalCase of two or more words, snake_case.
+// Plain words ("user", "the backend") never count, so prose alone does not create dependencies.
+const IDENTIFIER_PATTERN = /`([A-Za-z_$][\w$]*)`|\b([a-z]+[A-Z][\w$]*|[A-Z][a-z0-9]+[A-Z][\w$]*|[A-Za-z][A-Za-z0-9]*_\w+)\b/g
+
+// The part of a sentence where a task says what it makes: "Create the UserService class in src/user.ts"
+const CREATION_PATTERN = /\b(?:create|implement|define|add|write|build|generate|introduce|export|scaffold)(?:e?s)?\b((?:[^.;\n]|\.(?=\S))*)/gi
+
+const findPaths = (text: string): string[] => [...text.matchAll(FILE_PATTERN)].map(m => m[0].replace(/^\.\//, ""))
+
+const findIdentifiers = (text: string): string[] =>
+  [...text.replace(FILE_PATTERN, " ").matchAll(IDENTIFIER_PATTERN)].map(m => m[1] || m[2])
+
+// "auth.ts" and "src/auth.ts" name the same file
+const samePath = (a: string, b: string) => a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`)
+
+// Infer dependencies from what tasks produce and use: a task depends on an earlier task when it mentions a file
+// path or identifier that task creates, or one of its declared outputs. Only earlier tasks in the list count as
+// producers, so inferred edges never form a cycle. Returns the edges of each task in `targets` (default: all).
+const analyzeDependencies = (
+  tasks: { id: string; content: string; outputs?: string[]; files?: string[] }[],
+  targets: string[] = tasks.map(t => t.id),
+): Map<string, InferredDependency[]> => {
+  const ids = new Set(tasks.map(t => t.id))
+
+  // What each task produces: its declared files and outputs, plus what its creation clauses mention
+  const products = tasks.map(task => {
+    const outputs = (task.outputs || []).map(o => o.trim()).filter(Boolean)
+    const clauses = [...task.content.matchAll(CREATION_PATTERN)].map(m => m[1]).join("\n")
+    return {
+      paths: new Set([...(task.files || []).map(f => f.replace(/^\.\//, "")), ...outputs.flatMap(findPaths), ...findPaths(clauses)]),
+      identifiers: new Set([...outputs.flatMap(findIdentifiers), ...findIdentifiers(clauses)].filter(i => !ids.has(i))),
+      // Free-text outputs ("user session store") are matched as phrases; single plain words are too vague
+      phrases: outputs.filter(o => o.split(/\s+/).length > 1 && findPaths(o).length === 0 && findIdentifiers(o).length === 0),
+    }
+  })
+
+  const dependencyMap = new Map<string, InferredDependency[]>()
+  tasks.forEach((task, index) => {
+    if (!targets.includes(task.id)) return
+    const paths = [...findPaths(task.content), ...(task.files || []).map(f => f.replace(/^\.\//, ""))]
+    const identifiers = new Set(findIdentifiers(task.content))
+    const text = task.content.toLowerCase()
+
+    const deps: InferredDependency[] = []
+    tasks.slice(0, index).forEach((producer, i) => {
+      const made = products[i]
+      const used = new Set([
+        ...[...made.paths].filter(p => paths.some(q => samePath(p, q))),
+        ...[...made.identifiers].filter(id => identifiers.has(id)),
+        ...made.phrases.filter(phrase => new RegExp(`(?<!\\w)${phrase.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?!\\w)`).test(text)),
+      ])
+      if (used.size > 0) {
+        deps.push({ dependsOn: producer.id, reason: `${task.id} uses ${[...used].map(u => `\`${u}\``).join(", ")} produced by ${producer.id}` })
+      }
+    })
+    dependencyMap.set(task.id, deps)
+  })
+  return dependencyMap
+}
+
+// Format inferred dependencies with their reasons, one line per edge
+const formatInferredDependencies = (inferred: Map<string, InferredDependency[]>, indent: string): string[] =>
+  [...inferred.values()].flat().map(d => `${indent}- ${d.reason}`)
+
+// Validate a task graph: duplicate IDs, unknown or self dependencies, and cycles (with their path)
+const validateTaskGraph = (tasks: { id: string; dependencies?: string[] }[]): GraphIssue[] => {
+  const issues: GraphIssue[] = []
+  const ids = new Set<string>()
+
+  for (const task of tasks) {
+    if (ids.has(task.id)) {
+      issues.push({ kind: "duplicate_id", taskId: task.id, message: `Duplicate task ID "${task.id}"` })
+    }
+    ids.add(task.id)
+  }
+
+  for (const task of tasks) {
+    for (const dep of task.dependencies || []) {
+      if (dep === task.id) {
+        issues.push({ kind: "self_dependency", taskId: task.id, message: `Task "${task.id}" depends on itself` })
+      } else if (!ids.has(dep)) {
+        issues.push({ kind: "unknown_dependency", taskId: task.id, message: `Task "${task.id}" depends on unknown task "${dep}"` })
+      }
+    }
+  }
+
+  // Depth-first search; reaching a task that is still on the stack closes a cycle
+  const depsOf = new Map<string, string[]>()
+  for (const task of tasks) {
+    const deps = (task.dependencies || []).filter(d => d !== task.id && ids.has(d))
+    depsOf.set(task.id, [...(depsOf.get(task.id) || []), ...deps])
+  }
+  const state = new Map<string, "visiting" | "done">()
+  const stack: string[] = []
+  const seenCycles = new Set<string>()
+
+  const visit = (id: string) => {
+    state.set(id, "visiting")
+    stack.push(id)
+    for (const dep of depsOf.get(id) || []) {
+      if (state.get(dep) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(dep)), dep]
+        const key = [...new Set(cycle)].sort().join(",")
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key)
+          issues.push({ kind: "cycle", taskId: dep, message: `Dependency cycle: ${cycle.join(" -> ")} (each task depends on the next)` })
+        }
+      } else if (!state.has(dep)) {
+        visit(dep)
+      }
+    }
+    stack.pop()
+    state.set(id, "done")
+  }
+  for (const id of depsOf.keys()) {
+    if (!state.has(id)) visit(id)
+  }
+
+  return issues
+}
+
+// Validate a loop's task tree as the scheduler will run it: the explicit graph first, then dependencies
+// between a task and its own ancestors or subtasks, then cycles in the graph resolveDependencies produces
+const validateLoopGraph = (tasks: RalphTask[]): GraphIssue[] => {
+  const issues = validateTaskGraph(tasks)
+  if (issues.length > 0) return issues
+
+  const byId = new Map(tasks.map(t => [t.id, t]))
+  for (const task of tasks) {
+    for (const dep of task.dependencies || []) {
+      if (ancestorsOf(tasks, task).includes(dep)) {
+        issues.push({ kind: "ancestor_dependency", taskId: task.id, message: `Task "${task.id}" depends on "${dep}", which it is a subtask of` })
+      } else if (ancestorsOf(tasks, byId.get(dep)!).includes(task.id)) {
+        issues.push({ kind: "ancestor_dependency", taskId: task.id, message: `Task "${task.id}" depends on its own subtask "${dep}"` })
+      }
+    }
+  }
+  if (issues.length > 0) return issues
+
+  // A subtask inherits its ancestors' dependencies and a split task stands for its subtasks, which can close
+  // a cycle the explicit graph does not show
+  const leaves = tasks
+    .filter(t => subtasksOf(tasks, t.id).length === 0)
+    .map(t => ({ id: t.id, dependencies: resolveDependencies(tasks, t) }))
+  return validateTaskGraph(leaves).map(issue => ({ ...issue, message: `${issue.message}, once split tasks are resolved to their subtasks` }))
+}
+
+// Format graph issues as a bulleted list
+const formatGraphIssues = (issues: GraphIssue[]): string =>
+  issues.map(issue => `  - ${issue.message}`).join("\n")
+
+// JSON plan the planner must return
+const PLAN_SCHEMA = tool.schema.object({
+  tasks: tool.schema.array(tool.schema.object({
+    id: tool.schema.string().min(1),
+    content: tool.schema.string().min(1),
+    dependencies: tool.schema.array(tool.schema.string()),
+    outputs: tool.schema.array(tool.schema.string()),
+    files: tool.schema.array(tool.schema.string()),
+    acceptanceCriteria: tool.schema.array(tool.schema.string()).min(1),
+    complexity: tool.schema.enum(TASK_COMPLEXITIES).optional(),
+    split: tool.schema.boolean().optional(),
+  })).min(1),
+})
+
+// Parse and validate a planner reply: a JSON plan, optionally inside a code fence.
+// Returns the tasks, or every problem found so they can be sent back for repair.
+const parsePlan = (text: string): { tasks: TaskWithDeps[]; errors: string[] } => {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/)
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  const json = fenced ? fenced[1] : start >= 0 && end > start ? text.slice(start, end + 1) : ""
+  if (!json.trim()) {
+    return { tasks: [], errors: ["No JSON plan found in the reply"] }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (e) {
+    return { tasks: [], errors: [`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`] }
+  }
+
+  const parsed = PLAN_SCHEMA.safeParse(data)
+  if (!parsed.success) {
+    return {
+      tasks: [],
+      errors: parsed.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join(".") : "plan"}: ${issue.message}`),
+    }
+  }
+
+  const tasks = parsed.data.tasks.map(t => ({ ...t, id: t.id.trim() }))
+  return { tasks, errors: validateTaskGraph(tasks).map(issue => issue.message) }
+}
+
+// Build execution layers - tasks in same layer can run in parallel
+const buildExecutionLayers = (tasks: RalphTask[]): RalphTask[][] => {
+  const taskMap = new Map(tasks.map(t => [t.id, t]))
+  const completed = new Set<string>()
+  const layers: RalphTask[][] = []
+  const remaining = new Set(tasks.map(t => t.id))
+  
+  // Safety limit to prevent infinite loops
+  let iterations = 0
+  const maxIterations = tasks.length + 1
+  
+  while (remaining.size > 0 && iterations < maxIterations) {
+    iterations++
+    const layer: RalphTask[] = []
+    
+    for (const taskId of remaining) {
+      const task = taskMap.get(taskId)!
+      const deps = task.dependencies || []
+      
+      // Check if all dependencies are completed
+      const allDepsCompleted = deps.every(dep => completed.has(dep))
+      if (allDepsCompleted) {
+        layer.push(task)
+      }
+    }
+    
+    // If no tasks can be added (circular dependency or other issue), 
+    // add all remaining as a single layer. Graphs are validated before
+    // they are accepted, so this is only a safety net.
+    if (layer.length === 0 && remaining.size > 0) {
+      for (const taskId of remaining) {
+        layer.push(taskMap.get(taskId)!)
+      }
+    }
+    
+    // Mark layer tasks as completed and remove from remaining
+    for (const task of layer) {
+      completed.add(task.id)
+      remaining.delete(task.id)
+    }
+    
+    if (layer.length > 0) {
+      layers.push(layer)
+    }
+  }
+  
+  return layers
+}
+
+// Turn planned tasks into pending loop tasks
+const tasksFromPlan = (plan: TaskWithDeps[]): RalphTask[] =>
+  plan.map(t => ({
+    id: t.id,
+    content: t.content,
+    status: "pending" as const,
+    dependencies: t.dependencies,
+    outputs: t.outputs,
+    files: t.files,
+    acceptanceCriteria: t.acceptanceCriteria,
+    complexity: t.complexity,
+    parentId: t.parentId,
+  }))
+
+// A plan that came back without a single dependency gets them inferred from its tasks' files and outputs
+// instead (see analyzeDependencies). Edges onto a task's own ancestors are dropped: they could never be met.
+// Sets the tasks' dependencies and returns the inferred edges - none when the plan had dependencies.
+const inferPlanDependencies = (tasks: RalphTask[]): Map<string, InferredDependency[]> => {
+  if (tasks.some(t => (t.dependencies || []).length > 0)) return new Map()
+
+  const inferred = analyzeDependencies(tasks)
+  for (const task of tasks) {
+    const ancestors = ancestorsOf(tasks, task)
+    const deps = (inferred.get(task.id) || []).filter(d => !ancestors.includes(d.dependsOn))
+    inferred.set(task.id, deps)
+    task.dependencies = deps.map(d => d.dependsOn)
+  }
+  return inferred
+}
+
+// Should a planned task be planned again into subtasks?
+const isOversized = (task: TaskWithDeps): boolean =>
+  task.split === true || task.content.length > OVERSIZED_TASK_LENGTH || (task.files || []).length > OVERSIZED_TASK_FILES
+
+// Planning request for the subtasks of an oversized task
+const formatSubtaskRequest = (task: TaskWithDeps, originalPrompt: string): string => {
+  const criteria = task.acceptanceCriteria && task.acceptanceCriteria.length > 0
+    ? `\n\nDone when:\n${task.acceptanceCriteria.map(c => `- ${c}`).join("\n")}`
+    : ""
+  return `${task.content}${criteria}
+
+This is one part of a larger request that has already been split up:
+"${originalPrompt}"
+Plan ONLY the part above; other tasks cover the rest.`
+}
+
+// Leaf tasks (the ones workers run) with dependencies resolved through split tasks, for buildExecutionLayers
+const executableTasks = (loop: RalphLoop, tasks: RalphTask[]): RalphTask[] =>
+  tasks
+    .filter(t => subtasksOf(loop.tasks, t.id).length === 0)
+    .map(t => ({ ...t, dependencies: resolveDependencies(loop.tasks, t) }))
+
+// Format a loop's plan: parallelization summary, the task tree with IDs, and execution layers
+const formatPlan = (loop: RalphLoop): string => {
+  const layers = buildExecutionLayers(executableTasks(loop, loop.tasks))
+  const parallelTasks = layers.filter(l => l.length > 1).reduce((sum, l) => sum + l.length, 0)
+
+  return `## Execution Plan
+- Total layers: ${layers.length}
+- Tasks that can run in parallel: ${parallelTasks}
+- Sequential bottlenecks: ${layers.filter(l => l.length === 1).length}
+
+## Tasks:
+${taskTree(loop.tasks).map(({ task: t, depth }, i) => {
+  const deps = t.dependencies && t.dependencies.length > 0 ? ` [depends: ${t.dependencies.join(", ")}]` : " [independent]"
+  const subtasks = subtasksOf(loop.tasks, t.id).length
+  const model = subtasks > 0 ? undefined : resolveTaskModel(loop, t)
+  const split = subtasks > 0 ? ` (split into ${subtasks} subtasks)` : ""
+  return `  ${"  ".repeat(depth)}${i + 1}. [${t.status}] ${t.id}: ${t.content}${deps}${split}${model ? ` (model: ${formatModel(model)})` : ""}`
+}).join("\n")}
+
+## Execution Layers (parallel groups):
+${layers.map((layer, i) => `  Layer ${i + 1}: ${layer.map(t => t.id).join(", ")} ${layer.length > 1 ? "(PARALLEL)" : ""}`).join("\n")}`
+}
+
+// Describe what a task's dependencies produced, for the worker prompt. Empty when the task has no dependencies.
+const formatDependencyResults = (loop: RalphLoop, task: RalphTask): string => {
+  const deps = resolveDependencies(loop.tasks, task)
+    .map(id => loop.tasks.find(t => t.id === id))
+    .filter((dep): dep is RalphTask => dep !== undefined)
+  if (deps.length === 0) return ""
+
+  const sections = deps.map(dep => {
+    const lines = [`### ${dep.id}: ${dep.content}`]
+    if (dep.status !== "completed") {
+      lines.push(`Status: ${dep.status} - its work may be missing or incomplete`)
+    }
+    if (dep.result?.summary) lines.push(`Summary: ${dep.result.summary}`)
+    if (dep.result && dep.result.files.length > 0) lines.push(`Files: ${dep.result.files.join(", ")}`)
+    if (dep.outputs && dep.outputs.length > 0) lines.push(`Outputs: ${dep.outputs.join(", ")}`)
+    return lines.join("\n")
+  })
+
+  return `
+## RESULTS FROM DEPENDENCIES
+These tasks ran before yours. Build on their work - do not redo or re-invent it.
+
+${sections.join("\n\n")}
+`
+}
+
+// Find a task that the plan editing tools may change. Returns an error message instead when it can't be edited.
+const findEditableTask = (loop: RalphLoop, taskId: string): RalphTask | string => {
+  if (loop.running) {
+    return "Error: Ralph loop is running. Pause it with ralph_pause before editing the plan."
+  }
+  const task = loop.tasks.find(t => t.id === taskId)
+  if (!task) {
+    return `Error: No task "${taskId}" in loop ${loop.id}. Known tasks: ${loop.tasks.map(t => t.id).join(", ") || "(none)"}`
+  }
+  if (task.status === "completed") {
+    return `Error: Task ${taskId} is already completed and can't be edited.`
+  }
+  return task
+}
+
+// Retry arguments shared by the tools that start or configure a loop
+const retryArgs = {
+  maxAttempts: tool.schema.number().int().min(1).optional().describe(`Max attempts per task, including the first. Default: ${DEFAULT_RETRY_POLICY.maxAttempts}`),
+  retryDelayMs: tool.schema.number().int().min(0).optional().describe(`Base backoff before a retry, doubled per retry with jitter. Default: ${DEFAULT_RETRY_POLICY.baseDelayMs}`),
+  retryOn: tool.schema.array(tool.schema.enum(FAILURE_CLASSES)).optional().describe("Failure classes that may be retried: transient (rate limits, provider/network errors), session (session creation failed), task (worker failed or abandoned), merge_conflict (worktree changes could not be merged back), timeout (task hit its time limit or stalled), verification (verification commands kept failing). Default: transient, session"),
+}
+
+// Concurrency arguments shared by the tools that execute a loop
+const concurrencyArgs = {
+  serial: tool.schema.boolean().optional().describe("Execute tasks serially instead of in parallel (reduces API call frequency). Same as maxConcurrency: 1. Default: false"),
+  maxConcurrency: tool.schema.number().int().min(1).optional().describe("Max worker sessions running at once. Default: no limit"),
+  providerConcurrency: tool.schema.record(tool.schema.string(), tool.schema.number().int().min(1)).optional().describe("Max worker sessions per provider, keyed by provider ID (e.g. {\"anthropic\": 2, \"openai\": 4})"),
+}
+
+// Apply concurrency arguments to a loop, leaving unset fields as they are
+const applyConcurrencyArgs = (loop: Pick<RalphLoop, "maxConcurrency" | "providerConcurrency">, args: { serial?: boolean; maxConcurrency?: number; providerConcurrency?: Record<string, number> }) => {
+  if (args.maxConcurrency !== undefined) loop.maxConcurrency = args.maxConcurrency
+  if (args.serial === true) loop.maxConcurrency = 1
+  if (args.providerConcurrency !== undefined) loop.providerConcurrency = args.providerConcurrency
+}
+
+// Model routing arguments shared by the tools that create or run a loop
+const routesArg = tool.schema.array(tool.schema.object({
+  tag: tool.schema.string().optional().describe("Match tasks carrying this tag"),
+  complexity: tool.schema.enum(TASK_COMPLEXITIES).optional().describe("Match tasks of this complexity"),
+  model: tool.schema.string().describe("Model for matching tasks (format: provider/model)"),
+})).optional().describe("Routing rules for worker models, first match wins, e.g. [{complexity: \"low\", model: \"openai/gpt-4o-mini\"}]. Tasks matching no rule use the loop's model")
+
+const plannerModelArg = tool.schema.string().optional().describe("Model for the planning session (format: provider/model). Default: the worker model")
+
+// Turn routing rules from tool arguments into ModelRoutes, rejecting rules that match everything or name no valid model
+const parseModelRoutes = (routes: { tag?: string; complexity?: TaskComplexity; model: string }[]): { routes: ModelRoute[]; error?: string } => {
+  const parsed: ModelRoute[] = []
+  for (const [i, route] of routes.entries()) {
+    const model = parseModelString(route.model)
+    if (!model) {
+      return { routes: [], error: `Route ${i + 1}: invalid model "${route.model}" (expected provider/model)` }
+    }
+    if (route.tag === undefined && route.complexity === undefined) {
+      return { routes: [], error: `Route ${i + 1}: set a tag and/or complexity to match (use --model for the default worker model)` }
+    }
+    parsed.push({ tag: route.tag, complexity: route.complexity, model })
+  }
+  return { routes: parsed }
+}
+
+// Describe a loop's model setup for tool output
+const formatModelRouting = (loop: RalphLoop): string[] => {
+  const lines: string[] = []
+  if (loop.plannerModel) lines.push(`Planner model: ${formatModel(loop.plannerModel)}`)
+  for (const route of loop.modelRoutes || []) {
+    const match = [route.tag && `tag ${route.tag}`, route.complexity && `complexity ${route.complexity}`].filter(Boolean).join(" + ")
+    lines.push(`Route: ${match} -> ${formatModel(route.model)}`)
+  }
+  return lines
+}
+
+const CONFIG_FILE = "ralph.config.json"
+
+// Shape of ralph.config.json. Unknown keys are rejected so typos don't go unnoticed.
+const CONFIG_SCHEMA = tool.schema.object({
+  model: tool.schema.string().optional(),
+  plannerModel: tool.schema.string().optional(),
+  routes: tool.schema.array(tool.schema.object({
+    tag: tool.schema.string().optional(),
+    complexity: tool.schema.enum(TASK_COMPLEXITIES).optional(),
+    model: tool.schema.string(),
+  }).strict()).optional(),
+  maxConcurrency: tool.schema.number().int().min(1).optional(),
+  providerConcurrency: tool.schema.record(tool.schema.string(), tool.schema.number().int().min(1)).optional(),
+  retry: tool.schema.object({
+    maxAttempts: tool.schema.number().int().min(1).optional(),
+    baseDelayMs: tool.schema.number().int().min(0).optional(),
+    maxDelayMs: tool.schema.number().int().min(0).optional(),
+    retryOn: tool.schema.array(tool.schema.enum(FAILURE_CLASSES)).optional(),
+  }).strict().optional(),
+  onFailure: tool.schema.enum(FAILURE_POLICIES).optional(),
+  isolation: tool.schema.enum(["shared", "worktree"]).optional(),
+  taskTimeoutMs: tool.schema.number().int().min(1).optional(),
+  inactivityTimeoutMs: tool.schema.number().int().min(1).optional(),
+  verification: tool.schema.object({
+    afterTask: tool.schema.array(tool.schema.string().min(1)).optional(),
+    afterLayer: tool.schema.array(tool.schema.string().min(1)).optional(),
+    fixAttempts: tool.schema.number().int().min(0).optional(),
+    timeoutMs: tool.schema.number().int().min(1).optional(),
+  }).strict().optional(),
+  maxPlanDepth: tool.schema.number().int().min(0).optional(),
+  budget: tool.schema.object({
+    maxTokens: tool.schema.number().int().min(1).optional(),
+    maxCost: tool.schema.number().positive().optional(),
+  }).strict().optional(),
+  reports: tool.schema.object({
+    dir: tool.schema.string().optional(),
+    formats: tool.schema.array(tool.schema.enum(REPORT_FORMATS)).optional(),
+  }).strict().optional(),
+  stateDir: tool.schema.string().optional(),
+  templates: tool.schema.object({
+    worker: tool.schema.string().optional(),
+    planner: tool.schema.string().optional(),
+  }).strict().optional(),
+}).strict()
+
+// Read <project>/ralph.config.json. A missing file means defaults; an invalid one returns the defaults plus an error
+// for the tools to report.
+const loadRalphConfig = (baseDir: string): { config: RalphConfig; error?: string } => {
+  const defaults: RalphConfig = {
+    templates: {
+      worker: path.join(baseDir, TEMPLATE_DIR, "worker.md"),
+      planner: path.join(baseDir, TEMPLATE_DIR, "planner.md"),
+    },
+  }
+  const file = path.join(baseDir, CONFIG_FILE)
+  if (!fs.existsSync(file)) return { config: defaults }
+
+  const invalid = (problems: string[]) => ({
+    config: defaults,
+    error: `Invalid ${file}:\n${problems.map(p => `  - ${p}`).join("\n")}`,
+  })
+
+  let data: unknown
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf-8"))
+  } catch (e) {
+    return invalid([e instanceof Error ? e.message : String(e)])
+  }
+
+  const parsed = CONFIG_SCHEMA.safeParse(data)
+  if (!parsed.success) {
+    return invalid(parsed.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join(".") : "config"}: ${issue.message}`))
+  }
+  const raw = parsed.data
+
+  const problems: string[] = []
+  const model = (key: "model" | "plannerModel") => {
+    const value = raw[key]
+    if (value === undefined) return undefined
+    const config = parseModelString(value)
+    if (!config) problems.push(`${key}: invalid model "${value}" (expected provider/model)`)
+    return config || undefined
+  }
+  const workerModel = model("model")
+  const plannerModel = model("plannerModel")
+  const routing = parseModelRoutes(raw.routes || [])
+  if (routing.error) problems.push(`routes: ${routing.error}`)
+
+  const config: RalphConfig = {
+    model: workerModel,
+    plannerModel,
+    routes: raw.routes ? routing.routes : undefined,
+    maxConcurrency: raw.maxConcurrency,
+    providerConcurrency: raw.providerConcurrency,
+    retry: raw.retry,
+    onFailure: raw.onFailure,
+    isolation: raw.isolation,
+    taskTimeoutMs: raw.taskTimeoutMs,
+    inactivityTimeoutMs: raw.inactivityTimeoutMs,
+    verification: raw.verification,
+    maxPlanDepth: raw.maxPlanDepth,
+    budget: raw.budget,
+    reports: raw.reports && { ...raw.reports, dir: raw.reports.dir ? path.resolve(baseDir, raw.reports.dir) : undefined },
+    stateDir: raw.stateDir ? path.resolve(baseDir, raw.stateDir) : undefined,
+    templates: {
+      worker: raw.templates?.worker ? path.resolve(baseDir, raw.templates.worker) : defaults.templates.worker,
+      planner: raw.templates?.planner ? path.resolve(baseDir, raw.templates.planner) : defaults.templates.planner,
+    },
+  }
+  return problems.length > 0 ? invalid(problems) : { config }
+}
+
+// Loop settings a new loop starts from, taken from the project config
+const loopSettingsFromConfig = (config: RalphConfig): Partial<RalphLoop> => ({
+  plannerModel: config.plannerModel,
+  modelRoutes: config.routes,
+  maxConcurrency: config.maxConcurrency,
+  providerConcurrency: config.providerConcurrency,
+  retryPolicy: config.retry,
+  onFailure: config.onFailure,
+  isolation: config.isolation,
+  taskTimeoutMs: config.taskTimeoutMs,
+  inactivityTimeoutMs: config.inactivityTimeoutMs,
+  verification: config.verification,
+  maxPlanDepth: config.maxPlanDepth,
+  budget: config.budget,
+  reports: config.reports,
+})
+
+// Apply loop settings from tool arguments on top of what the loop already has
+const applyLoopArgs = (loop: RalphLoop, args: {
+  serial?: boolean
+  maxConcurrency?: number
+  providerConcurrency?: Record<string, number>
+  onFailure?: FailurePolicy
+  isolation?: "shared" | "worktree"
+  plannerModel?: ModelConfig
+  routes?: ModelRoute[]
+  retry?: Partial<RetryPolicy>
+  taskTimeoutMs?: number
+  inactivityTimeoutMs?: number
+  verifyCommands?: string[]
+  verifyAfterLayer?: string[]
+  fixAttempts?: number
+  maxPlanDepth?: number
+  maxTokens?: number
+  maxCost?: number
+}) => {
+  applyConcurrencyArgs(loop, args)
+  if (args.maxTokens !== undefined) loop.budget = { ...loop.budget, maxTokens: args.maxTokens }
+  if (args.maxCost !== undefined) loop.budget = { ...loop.budget, maxCost: args.maxCost }
+  if (args.maxPlanDepth !== undefined) loop.maxPlanDepth = args.maxPlanDepth
+  if (args.verifyCommands !== undefined) loop.verification = { ...loop.verification, afterTask: args.verifyCommands }
+  if (args.verifyAfterLayer !== undefined) loop.verification = { ...loop.verification, afterLayer: args.verifyAfterLayer }
+  if (args.fixAttempts !== undefined) loop.verification = { ...loop.verification, fixAttempts: args.fixAttempts }
+  if (args.taskTimeoutMs !== undefined) loop.taskTimeoutMs = args.taskTimeoutMs
+  if (args.inactivityTimeoutMs !== undefined) loop.inactivityTimeoutMs = args.inactivityTimeoutMs
+  if (args.onFailure) loop.onFailure = args.onFailure
+  if (args.isolation) loop.isolation = args.isolation
+  if (args.plannerModel) loop.plannerModel = args.plannerModel
+  if (args.routes) loop.modelRoutes = args.routes
+  if (args.retry) loop.retryPolicy = { ...loop.retryPolicy, ...args.retry }
+}
+
+// Timeout arguments shared by the tools that create or run a loop
+const timeoutArgs = {
+  taskTimeoutMs: tool.schema.number().int().min(1).optional().describe("Abort a task attempt that runs longer than this and mark it timed_out. Default: no limit"),
+  inactivityTimeoutMs: tool.schema.number().int().min(1).optional().describe("Abort a task attempt whose session shows no activity for this long and mark it timed_out. Default: no limit"),
+}
+
+// Budget arguments shared by the tools that create or run a loop
+const budgetArgs = {
+  maxTokens: tool.schema.number().int().min(1).optional().describe("Token budget for the loop (input + output + reasoning, planning included). Once reached, no new tasks are started. Default: no limit"),
+  maxCost: tool.schema.number().positive().optional().describe("Cost budget for the loop in USD, planning included. Once reached, no new tasks are started. Default: no limit"),
+}
+
+const maxPlanDepthArg = tool.schema.number().int().min(0).optional()
+  .describe(`How many levels oversized tasks (flagged by the planner, or very long) are planned again into subtasks. 0 keeps the plan flat. Default: ${DEFAULT_MAX_PLAN_DEPTH}`)
+
+// Verification arguments shared by the tools that create or run a loop
+const verificationArgs = {
+  verifyCommands: tool.schema.array(tool.schema.string()).optional().describe("Shell commands run after each task reports completion (e.g. ['npm test', 'tsc --noEmit']). A non-zero exit fails the task"),
+  verifyAfterLayer: tool.schema.array(tool.schema.string()).optional().describe("Shell commands run in the project after each execution layer. A non-zero exit fails that layer's tasks"),
+  fixAttempts: tool.schema.number().int().min(0).optional().describe("Fresh fix-up sessions to try when a task's verification fails, each given the failing output. Default: 0"),
+}
+
+const isolationArg = tool.schema.enum(["shared", "worktree"]).optional().describe("Where workers edit files: shared (all in the project directory) or worktree (each task in its own git worktree and branch, merged back when it completes). Default: shared")
+
+const onFailureArg = tool.schema.enum(FAILURE_POLICIES).optional().describe("What to do when a task fails: fail_fast (start no new tasks), continue (skip only the failed task's dependents), run_anyway (run dependents regardless). Default: continue")
+
+// Build a partial retry policy from tool arguments, keeping only the fields that were set
+const retryPolicyFromArgs = (args: { maxAttempts?: number; retryDelayMs?: number; retryOn?: FailureClass[] }): Partial<RetryPolicy> | undefined => {
+  const policy: Partial<RetryPolicy> = {}
+  if (args.maxAttempts !== undefined) policy.maxAttempts = args.maxAttempts
+  if (args.retryDelayMs !== undefined) policy.baseDelayMs = args.retryDelayMs
+  if (args.retryOn !== undefined) policy.retryOn = args.retryOn
+  return Object.keys(policy).length > 0 ? policy : undefined
+}
+
+// Project templates in <project>/.opencode/ralph/ (or the paths in ralph.config.json) override the built-in
+// prompts below. They use the same {{variable}} placeholders; unknown placeholders are left as they are.
+const TEMPLATE_DIR = path.join(".opencode", "ralph")
+
+// The completion block parseTaskCompletion looks for
+const WORKER_COMPLETION_FORMAT = `When done, output exactly:
+\`\`\`
+TASK_COMPLETE
+Summary: [1-2 sentence summary of what was done]
+Files: [list of files created/modified]
+\`\`\`
+
+If you cannot finish the task, output exactly:
+\`\`\`
+TASK_ABANDONED
+Summary: [what blocked you]
+Files: [list of files created/modified]
+\`\`\``
+
+// Strict worker prompt that enforces boundaries
+const DEFAULT_WORKER_TEMPLATE = `# SINGLE TASK EXECUTION - STRICT BOUNDARIES
+
+## YOUR ONLY TASK (Task {{taskIndex}}/{{totalTasks}})
+{{task}}
+
+## ORIGINAL PROJECT CONTEXT
+"{{originalPrompt}}"
+{{dependencyResults}}{{acceptanceCriteria}}{{files}}
+## CRITICAL RULES - READ CAREFULLY
+1. **ONLY** complete the task described above - nothing else
+2. **DO NOT** work on any other tasks from the project
+3. **DO NOT** anticipate or prepare for future tasks
+4. **DO NOT** refactor or improve code outside your task scope
+5. **STOP** immediately when your specific task is complete
+
+## WHAT YOU MUST DO
+- Focus exclusively on: "{{task}}"
+- Complete this single task thoroughly
+- Test your specific changes if applicable
+- Document only what you created/modified
+
+## COMPLETION
+{{completionFormat}}
+
+## BEGIN
+Start working on your task now. Remember: ONLY this task, nothing more.`
+
+// Prompt for a fresh session that fixes a task whose verification failed
+const formatFixUpPrompt = (task: RalphTask, failure: VerificationFailure, fixNumber: number, maxFixes: number): string =>
+  `# FIX FAILING VERIFICATION (fix-up ${fixNumber}/${maxFixes})
+
+## TASK
+${task.content}
+
+This task was reported complete, but a verification command failed:
+\`\`\`
+$ ${failure.command}
+(exit code ${failure.code})
+${failure.output}
+\`\`\`
+
+## RULES
+1. Fix ONLY what is needed for this command to pass
+2. Stay within the scope of the task above
+3. Run the command yourself to confirm the fix
+
+## COMPLETION
+${WORKER_COMPLETION_FORMAT}`
+
+// The JSON plan shape parsePlan validates
+const PLAN_FORMAT = `Output ONLY a JSON object in this EXACT shape, with no prose around it:
+\`\`\`json
+{
+  "tasks": [
+    {
+      "id": "task_1",
+      "content": "Task description",
+      "dependencies": [],
+      "outputs": ["what this creates"],
+      "files": ["src/path/created-or-modified.ts"],
+      "acceptanceCriteria": ["how to tell the task is done"],
+      "complexity": "low"
+    },
+    {
+      "id": "task_2",
+      "content": "Task description",
+      "dependencies": ["task_1"],
+      "outputs": ["what this creates"],
+      "files": ["src/other.ts"],
+      "acceptanceCriteria": ["how to tell the task is done"],
+      "complexity": "high"
+    }
+  ]
+}
+\`\`\`
+- "id" must be unique; "dependencies" may only name IDs from this plan
+- "acceptanceCriteria" needs at least one entry
+- "complexity" is low (boilerplate, small edits), medium (ordinary feature work) or high (tricky logic, cross-cutting changes)
+- Add "split": true to a task that is still too large for one focused session; it will be planned again into subtasks`
+
+const DEFAULT_PLANNER_TEMPLATE = `You are an expert task planner for software engineering projects. Break down this request into ATOMIC, INDEPENDENT tasks.
+
+## Request
+{{request}}
+
+## CRITICAL RULES FOR TASK BREAKDOWN
+
+### 1. ATOMIC TASKS
+Each task MUST be:
+- Completable in a single focused session (15-30 min of work)
+- Self-contained with clear boundaries
+- Specific enough that there's no ambiguity about scope
+
+### 2. INDEPENDENCE
+- Tasks that don't depend on each other should have no dependencies
+- List the IDs of the tasks a task needs in "dependencies"
+- Independent tasks will run IN PARALLEL for speed
+
+### 3. STRICT FORMAT
+{{planFormat}}
+
+### 4. EXAMPLES OF GOOD VS BAD TASKS
+
+BAD (too broad):
+- "Implement the backend" 
+- "Create the UI"
+
+GOOD (atomic):
+- "Create User model with fields: id, email, password_hash, created_at"
+- "Implement POST /api/auth/login endpoint that validates credentials and returns JWT"
+- "Create LoginForm component with email and password inputs"
+
+### 5. PARALLELIZATION HINTS
+- File/module creation tasks are often independent
+- Tests usually depend on the code they test
+- Integration tasks depend on the components they integrate
+
+## OUTPUT
+Now break down the request into atomic tasks with dependencies:
+`
+
+// Read a project template, or undefined when the project doesn't override it
+const loadTemplate = (file: string): string | undefined => {
+  try {
+    return fs.readFileSync(file, "utf-8")
+  } catch (e) {
+    return undefined
+  }
+}
+
+// The project's AGENTS.md, offered to templates as {{projectContext}}
+const loadProjectContext = (baseDir: string): string => {
+  try {
+    return fs.readFileSync(path.join(baseDir, "AGENTS.md"), "utf-8").trim()
+  } catch (e) {
+    return ""
+  }
+}
+
+// Fill in {{variable}} placeholders. The `required` variable carries the output format the runner parses,
+// so it is appended when a template leaves it out.
+const renderPromptTemplate = (template: string, vars: Record<string, string>, required: string): string => {
+  let usesRequired = false
+  const text = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    if (name === required) usesRequired = true
+    return Object.prototype.hasOwnProperty.call(vars, name) ? vars[name] : match
+  })
+  return usesRequired ? text : `${text.trimEnd()}\n\n${vars[required]}`
+}
+
+export const RalphWiggumPlugin: Plugin = async ({ client, directory }) => {
+  // The state file location is fixed for the life of the process; other config is re-read by each tool
+  const startupConfig = loadRalphConfig(directory).config
+  if (startupConfig.stateDir) {
+    ralphStateFile = path.join(startupConfig.stateDir, "ralph-state.json")
+  }
+
+  // Get the model from a session by fetching its messages
+  const getSessionModel = async (sessionId: string): Promise<ModelConfig | undefined> => {
+    try {
       const messagesResponse = await client.session.messages({
         path: { id: sessionId },
         query: { limit: 1 },
@@ -249,219 +2313,742 @@ export const RalphWiggumPlugin: Plugin = async ({ client }) => {
           }
         }
       }
-    } catch (e) {
-      // Fall back to default
+    } catch (e) {
+      // Fall back to default
+    }
+    return undefined
+  }
+
+  // Get the most recent assistant message in a session: its text, the model that wrote it and any provider error
+  const getFinalAssistantMessage = async (sessionId: string, sessionDirectory?: string): Promise<{ text: string; model?: ModelConfig; error?: string; retryable?: boolean }> => {
+    const messagesResponse = await client.session.messages({
+      path: { id: sessionId },
+      ...(sessionDirectory ? { query: { directory: sessionDirectory } } : {}),
+    })
+    const assistantMessages = (messagesResponse?.data || []).filter(m => m.info.role === "assistant")
+    if (assistantMessages.length === 0) return { text: "" }
+
+    const latest = assistantMessages.reduce((a, b) => (b.info.time.created >= a.info.time.created ? b : a))
+    const text = latest.parts.map(p => (p.type === "text" ? p.text : "")).join("\n")
+    const info = latest.info
+    if (info.role !== "assistant") return { text }
+    const model = { providerID: info.providerID, modelID: info.modelID }
+    if (!info.error) return { text, model }
+
+    const errorData = info.error.data as { message?: string; isRetryable?: boolean }
+    return {
+      text,
+      model,
+      error: `${info.error.name}: ${errorData.message || "no details"}`,
+      retryable: errorData.isRetryable === true,
+    }
+  }
+
+  // Add up the tokens and cost of a session's assistant messages. A session that can't be read counts as nothing.
+  const getSessionUsage = async (sessionId: string, sessionDirectory?: string): Promise<Usage> => {
+    let usage = addUsage(undefined, undefined)
+    try {
+      const messagesResponse = await client.session.messages({
+        path: { id: sessionId },
+        ...(sessionDirectory ? { query: { directory: sessionDirectory } } : {}),
+      })
+      for (const message of messagesResponse?.data || []) {
+        const info = message.info
+        if (info.role !== "assistant") continue
+        usage = addUsage(usage, {
+          input: info.tokens.input,
+          output: info.tokens.output,
+          reasoning: info.tokens.reasoning,
+          cacheRead: info.tokens.cache.read,
+          cacheWrite: info.tokens.cache.write,
+          cost: info.cost,
+        })
+      }
+    } catch (e) {
+      // Accounting must never fail a task
+    }
+    return usage
+  }
+
+  // Charge sessions to a loop and return what they used together
+  const chargeSessions = async (loop: RalphLoop, sessionIds: string[], sessionDirectory?: string): Promise<Usage> => {
+    let usage = addUsage(undefined, undefined)
+    for (const sessionId of sessionIds) {
+      usage = addUsage(usage, await getSessionUsage(sessionId, sessionDirectory))
+    }
+    loop.usage = addUsage(loop.usage, usage)
+    return usage
+  }
+
+  // Prompt a worker session and wait for the reply, unless the watchdog gives up first.
+  // Returns the watchdog's reason (after aborting the session), or undefined once the reply is in.
+  const promptWorker = async (
+    sessionId: string,
+    text: string,
+    model: ModelConfig | undefined,
+    sessionDirectory: string | undefined,
+    watchdog: ReturnType<typeof startWatchdog>,
+  ): Promise<string | undefined> => {
+    const sessionQuery = sessionDirectory ? { query: { directory: sessionDirectory } } : {}
+    // session.prompt() waits for the full response
+    const prompt = client.session.prompt({
+      path: { id: sessionId },
+      body: {
+        ...(model ? { model } : {}),
+        parts: [{ type: "text", text }],
+      },
+      ...sessionQuery,
+    })
+    const outcome = await Promise.race([
+      prompt.then(response => ({ response })),
+      watchdog.fired.then(reason => ({ timedOut: reason })),
+    ])
+    if ("timedOut" in outcome) {
+      prompt.catch(() => {}) // Settles once the abort lands; nobody is waiting for it any more
+      await client.session.abort({ path: { id: sessionId }, ...sessionQuery }).catch(() => {})
+      return outcome.timedOut
+    }
+    if (outcome.response?.error) {
+      throw new Error(`Prompt failed: ${JSON.stringify(outcome.response.error)}`)
+    }
+    return undefined
+  }
+
+  // Run one attempt of a task in a fresh session with strict scoping
+  const runTaskAttempt = async (task: RalphTask, loop: RalphLoop, taskIndex: number, totalTasks: number): Promise<TaskAttempt> => {
+    const attempt: TaskAttempt = {
+      attempt: (task.attempts?.length || 0) + 1,
+      startedAt: Date.now(),
+      status: "in_progress",
+    }
+    task.attempts = [...(task.attempts || []), attempt]
+    task.sessionId = undefined
+    task.result = undefined
+    const model = resolveTaskModel(loop, task)
+    task.modelUsed = model
+
+    // Outcome of this attempt, applied (and checkpointed) once the attempt is over
+    let status: RalphTask["status"] = "failed"
+    let error: string | undefined
+    let worktree: { path: string; branch: string } | undefined
+    let merged = false
+    let watchdog: ReturnType<typeof startWatchdog> | undefined
+
+    try {
+      // In worktree isolation the worker gets its own checkout and branch
+      if (loop.isolation === "worktree") {
+        worktree = await createTaskWorktree(directory, loop, task, attempt.attempt)
+        task.branch = worktree.branch
+        task.conflicts = undefined
+      }
+      const sessionQuery = worktree ? { query: { directory: worktree.path } } : {}
+
+      // Create a fresh session for this task
+      const sessionResponse = await client.session.create({ body: {}, ...sessionQuery })
+      const session = sessionResponse?.data
+      if (!session) {
+        error = "Failed to create session"
+        attempt.failureClass = "session"
+        return attempt
+      }
+      task.sessionId = session.id
+      attempt.sessionId = session.id
+      journal(loop, { type: "session_created", taskId: task.id, sessionId: session.id, role: "worker", attempt: attempt.attempt })
+      setTaskStatus(loop, task, "in_progress")
+      
+      // Track this active session
+      activeSessions.set(session.id, { loopId: loop.id, taskId: task.id, createdAt: Date.now(), directory: worktree?.path, lastEventAt: Date.now() })
+
+      // Strict worker prompt that enforces boundaries
+      const workerPrompt = renderPromptTemplate(loadTemplate(loadRalphConfig(directory).config.templates.worker) || DEFAULT_WORKER_TEMPLATE, {
+        task: task.content,
+        taskId: task.id,
+        taskIndex: String(taskIndex),
+        totalTasks: String(totalTasks),
+        originalPrompt: loop.originalPrompt,
+        dependencyResults: formatDependencyResults(loop, task),
+        acceptanceCriteria: task.acceptanceCriteria && task.acceptanceCriteria.length > 0
+          ? `\n## ACCEPTANCE CRITERIA\n${task.acceptanceCriteria.map(c => `- ${c}`).join("\n")}\n`
+          : "",
+        files: task.files && task.files.length > 0 ? `\n## EXPECTED FILES\n${task.files.map(f => `- ${f}`).join("\n")}\n` : "",
+        directory,
+        projectContext: loadProjectContext(directory),
+        completionFormat: WORKER_COMPLETION_FORMAT,
+      }, "completionFormat")
+
+      // The time limit covers the whole attempt. Inactivity only counts while a session (worker, then fix-ups)
+      // is being prompted: verification commands in between produce no session events.
+      let liveSessionId: string | undefined = session.id
+      watchdog = startWatchdog({
+        startedAt: attempt.startedAt,
+        timeoutMs: task.timeoutMs ?? loop.taskTimeoutMs,
+        inactivityTimeoutMs: loop.inactivityTimeoutMs,
+        lastActivityAt: () => liveSessionId ? activeSessions.get(liveSessionId)?.lastEventAt ?? attempt.startedAt : Date.now(),
+      })
+      const timedOut = await promptWorker(session.id, workerPrompt, model, worktree?.path, watchdog)
+      liveSessionId = undefined
+      if (timedOut) {
+        status = "timed_out"
+        error = timedOut
+        attempt.failureClass = "timeout"
+        return attempt
+      }
+
+      // Only trust the worker's own completion block, not the prompt returning
+      const finalMessage = await getFinalAssistantMessage(session.id, worktree?.path)
+      if (finalMessage.model) task.modelUsed = finalMessage.model
+      const result = parseTaskCompletion(finalMessage.text)
+      if (finalMessage.error && !result) {
+        error = finalMessage.error
+        attempt.failureClass = finalMessage.retryable ? "transient" : classifyFailure(finalMessage.error)
+      } else if (!result) {
+        status = "unverified"
+        error = "Worker finished without a TASK_COMPLETE block"
+      } else if (result.abandoned) {
+        task.result = result
+        error = `Worker abandoned the task${result.summary ? `: ${result.summary}` : ""}`
+        attempt.failureClass = "task"
+      } else {
+        task.result = result
+        status = "completed"
+      }
+
+      // Completion only counts once the verification commands pass; failures may go to fix-up sessions
+      const verifyCommands = loop.verification?.afterTask || []
+      if (status === "completed" && verifyCommands.length > 0) {
+        const verifyDir = worktree?.path || directory
+        const maxFixes = loop.verification?.fixAttempts || 0
+        let failure = await runVerification(verifyCommands, verifyDir, loop.verification?.timeoutMs)
+
+        for (let fix = 1; failure && fix <= maxFixes && !loop.stopRequested; fix++) {
+          const fixResponse = await client.session.create({ body: {}, ...sessionQuery })
+          const fixSession = fixResponse?.data
+          if (!fixSession) break
+          attempt.fixUpSessions = [...(attempt.fixUpSessions || []), fixSession.id]
+          journal(loop, { type: "session_created", taskId: task.id, sessionId: fixSession.id, role: "fix_up", attempt: attempt.attempt })
+          liveSessionId = fixSession.id
+          activeSessions.set(fixSession.id, { loopId: loop.id, taskId: task.id, createdAt: Date.now(), directory: worktree?.path, lastEventAt: Date.now() })
+          checkpointLoop(loop)
+
+          try {
+            const fixTimedOut = await promptWorker(fixSession.id, formatFixUpPrompt(task, failure, fix, maxFixes), model, worktree?.path, watchdog)
+            if (fixTimedOut) {
+              status = "timed_out"
+              error = fixTimedOut
+              attempt.failureClass = "timeout"
+              return attempt
+            }
+          } finally {
+            liveSessionId = undefined
+            activeSessions.delete(fixSession.id)
+          }
+
+          const fixResult = parseTaskCompletion((await getFinalAssistantMessage(fixSession.id, worktree?.path)).text)
+          if (fixResult && task.result) {
+            task.result.files = [...new Set([...task.result.files, ...fixResult.files])]
+          }
+          failure = await runVerification(verifyCommands, verifyDir, loop.verification?.timeoutMs)
+        }
+
+        if (failure) {
+          status = "failed"
+          error = formatVerificationFailure(failure)
+          attempt.failureClass = "verification"
+        }
+      }
+
+      // Bring the worker's changes back into the main tree; a conflict fails the task instead
+      if (worktree && status === "completed") {
+        const merge = await mergeTaskWorktree(directory, worktree, task)
+        merged = merge.merged
+        if (merge.conflicts.length > 0) {
+          status = "failed"
+          task.conflicts = merge.conflicts
+          error = `Merge conflict in ${merge.conflicts.join(", ")} (changes kept on branch ${worktree.branch})`
+          attempt.failureClass = "merge_conflict"
+        } else if (merge.error) {
+          status = "failed"
+          error = merge.error
+          attempt.failureClass = "merge_conflict"
+        }
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e)
+      attempt.failureClass = classifyFailure(error)
+    } finally {
+      watchdog?.stop()
+      // Untrack this session regardless of outcome
+      if (task.sessionId) {
+        activeSessions.delete(task.sessionId)
+      }
+      if (attempt.sessionId) {
+        attempt.usage = await chargeSessions(loop, [attempt.sessionId, ...(attempt.fixUpSessions || [])], worktree?.path)
+        task.usage = addUsage(task.usage, attempt.usage)
+      }
+      if (worktree) {
+        await removeTaskWorktree(directory, worktree, task, merged)
+        if (merged) task.branch = undefined
+        else attempt.branch = worktree.branch
+      }
+      // An aborted session usually ends in an error; record it as the cancellation it was
+      if (loop.stopRequested === "cancel" && status !== "completed") {
+        status = "cancelled"
+        error = "Cancelled by ralph_cancel"
+        attempt.failureClass = undefined
+      }
+      attempt.status = status
+      attempt.error = error
+      attempt.finishedAt = Date.now()
+      setTaskStatus(loop, task, status, error)
+    }
+    return attempt
+  }
+
+  // Execute a single task, retrying failed attempts according to its retry policy
+  const executeTask = async (task: RalphTask, loop: RalphLoop, taskIndex: number, totalTasks: number): Promise<void> => {
+    const policy = resolveRetryPolicy(loop, task)
+
+    for (let tries = 1; ; tries++) {
+      // Checked before every attempt - once the task gets a worker slot and after each backoff - so a task
+      // that waited while the loop was paused, cancelled or went over budget starts no new session
+      if (loop.stopRequested === "cancel") {
+        setTaskStatus(loop, task, "cancelled", "Cancelled by ralph_cancel")
+        return
+      }
+      if (loop.stopRequested) {
+        // Paused: the task (or its retry) is left to the next ralph_run
+        if (tries > 1) setTaskStatus(loop, task, "pending", `${task.error} (retry deferred: loop stopped)`)
+        return
+      }
+      // Over budget: left pending until the budget is raised
+      if (checkBudget(loop)) {
+        if (tries > 1) setTaskStatus(loop, task, "pending", `${task.error} (retry deferred: budget reached)`)
+        return
+      }
+
+      const attempt = await runTaskAttempt(task, loop, taskIndex, totalTasks)
+      if ((task.status !== "failed" && task.status !== "timed_out") || !attempt.failureClass) return
+      if (tries >= policy.maxAttempts || !policy.retryOn.includes(attempt.failureClass)) return
+      if (loop.stopRequested || checkBudget(loop)) continue // Handled above, without waiting out the backoff
+
+      const delayMs = computeBackoffDelay(policy, tries)
+      journal(loop, { type: "task_retried", taskId: task.id, attempt: tries + 1, delayMs, error: task.error })
+      await sleep(delayMs)
+    }
+  }
+
+  // Run tasks as soon as their dependencies have completed, bounded by the run's worker pool.
+  // Failures are handled per loop.onFailure. Appends per-task progress to results in completion order.
+  const scheduleTasks = async (loop: RalphLoop, candidates: RalphTask[], results: string[]): Promise<void> => {
+    // Split tasks are never run themselves: their subtasks are, and dependencies on them wait for the whole subtree
+    const tasks = candidates.filter(t => subtasksOf(loop.tasks, t.id).length === 0)
+    const depsOf = new Map(tasks.map(t => [t.id, resolveDependencies(loop.tasks, t)]))
+    const pool = createTaskPool(loop)
+    const policy = loop.onFailure || "continue"
+    const taskMap = new Map(loop.tasks.map(t => [t.id, t]))
+    const scheduled = new Set(tasks.map(t => t.id))
+    const started = new Set<string>()
+    const finished = new Set<string>()
+    let running = 0 // Launched and not finished, including tasks still queued for a worker slot
+    let working = 0 // Holding a worker slot
+    let firstFailure: RalphTask | undefined
+    let budgetReported = false
+
+    // Layer verification: once every task of a layer has finished, its commands run in the main tree,
+    // and tasks that depend on the layer wait for the outcome
+    const layerCommands = loop.verification?.afterLayer || []
+    const layers = layerCommands.length > 0
+      ? buildExecutionLayers(tasks.map(t => ({ ...t, dependencies: depsOf.get(t.id)!.filter(d => scheduled.has(d)) })))
+          .map(layer => layer.map(t => taskMap.get(t.id)!))
+      : []
+    const layerOf = new Map<string, number>()
+    layers.forEach((layer, i) => layer.forEach(t => layerOf.set(t.id, i)))
+    const layersStarted = new Set<number>()
+    const layersVerified = new Set<number>()
+    let verifying = 0
+
+    // Dependencies outside this run (or unknown IDs) count once they are no longer pending
+    const isFinished = (id: string) => {
+      if (scheduled.has(id)) {
+        const layer = layerOf.get(id)
+        return finished.has(id) && (layer === undefined || layersVerified.has(layer))
+      }
+      const dep = taskMap.get(id)
+      return !dep || (dep.status !== "pending" && dep.status !== "in_progress")
+    }
+    const isCompleted = (id: string) => {
+      const dep = taskMap.get(id)
+      return !dep || dep.status === "completed"
+    }
+
+    let resolveDone!: () => void
+    const done = new Promise<void>(resolve => { resolveDone = resolve })
+
+    const reportFinished = (task: RalphTask) => {
+      finished.add(task.id)
+      results.push(``)
+      results.push(`--- Task ${finished.size}/${tasks.length} ---`)
+      results.push(`Task: ${task.content}`)
+      results.push(...formatTaskOutcome(task))
+      verifyFinishedLayers()
+    }
+
+    // A failed layer check fails the layer's completed tasks, so their dependents are blocked as usual
+    const verifyFinishedLayers = () => {
+      layers.forEach((layer, i) => {
+        if (layersStarted.has(i) || !layer.every(t => finished.has(t.id))) return
+        layersStarted.add(i)
+        // Nothing in the layer completed, so there is nothing to check
+        if (!layer.some(t => t.status === "completed")) {
+          layersVerified.add(i)
+          return
+        }
+        verifying++
+        void runVerification(layerCommands, directory, loop.verification?.timeoutMs).then(failure => {
+          verifying--
+          if (failure) {
+            results.push(`Layer ${i + 1} verification: FAILED`)
+            results.push(formatVerificationFailure(failure))
+            for (const task of layer) {
+              if (task.status !== "completed") continue
+              setTaskStatus(loop, task, "failed", `Layer ${i + 1} verification failed: \`${failure.command}\` exited with ${failure.code}${failure.output ? `\n${failure.output}` : ""}`)
+              if (!firstFailure) firstFailure = task
+            }
+          } else {
+            results.push(`Layer ${i + 1} verification: PASSED`)
+          }
+          layersVerified.add(i)
+          launchReady()
+        })
+      })
+    }
+
+    // Mark a task skipped, crediting the failure at the root of the chain
+    const markBlocked = (task: RalphTask, cause: RalphTask) => {
+      task.blockedBy = cause.status === "blocked" && cause.blockedBy ? cause.blockedBy : cause.id
+      setTaskStatus(loop, task, "blocked")
+    }
+
+    // Skip a task without running it
+    const block = (task: RalphTask, cause: RalphTask) => {
+      started.add(task.id)
+      markBlocked(task, cause)
+      reportFinished(task)
+    }
+
+    const noteFailure = (task: RalphTask) => {
+      if (task.status !== "completed" && task.status !== "pending" && !firstFailure) firstFailure = task
+    }
+
+    const runTask = async (task: RalphTask) => {
+      const taskIndex = loop.tasks.indexOf(task) + 1
+      try {
+        await pool(resolveTaskModel(loop, task)?.providerID, async () => {
+          // Under fail_fast, a failure while this task waited for a worker slot skips it like the rest
+          if (policy === "fail_fast" && firstFailure) {
+            markBlocked(task, firstFailure)
+            return
+          }
+          working++
+          results.push(`>>> Started ${task.id}: ${task.content} (${working} running)`)
+          try {
+            await executeTask(task, loop, taskIndex, loop.tasks.length)
+          } finally {
+            working--
+          }
+          noteFailure(task) // Before the slot is handed on, so the next queued task sees it
+        })
+      } catch (e) {
+        setTaskStatus(loop, task, "failed", e instanceof Error ? e.message : String(e))
+      }
+
+      running--
+      noteFailure(task)
+      reportFinished(task)
+      launchReady()
+    }
+
+    const launchReady = () => {
+      // Paused or cancelled: start nothing new and finish once in-flight tasks are done
+      if (loop.stopRequested) {
+        if (running === 0 && verifying === 0) resolveDone()
+        return
+      }
+
+      // Over budget: the same, and the rest stays pending for a later run
+      const overBudget = started.size < tasks.length ? checkBudget(loop) : undefined
+      if (overBudget) {
+        if (!budgetReported) results.push(`${overBudget} - no new tasks will be started`)
+        budgetReported = true
+        if (running === 0 && verifying === 0) resolveDone()
+        return
+      }
+
+      const ready: RalphTask[] = []
+
+      // Blocking one task can unblock the decision for its dependents, so repeat until stable
+      for (let changed = true; changed; ) {
+        changed = false
+        for (const task of tasks) {
+          if (started.has(task.id)) continue
+          if (policy === "fail_fast" && firstFailure) {
+            block(task, firstFailure)
+            changed = true
+            continue
+          }
+
+          const deps = depsOf.get(task.id)!
+          if (!deps.every(isFinished)) continue
+
+          const failedDep = deps.find(d => !isCompleted(d))
+          if (failedDep && policy !== "run_anyway") {
+            block(task, taskMap.get(failedDep)!)
+            changed = true
+          } else if (!ready.includes(task)) {
+            ready.push(task)
+          }
+        }
+      }
+
+      // Nothing can start and nothing is running: a dependency cycle slipped past validation.
+      // Run the rest rather than hang.
+      if (ready.length === 0 && running === 0 && verifying === 0 && started.size < tasks.length) {
+        ready.push(...tasks.filter(t => !started.has(t.id)))
+      }
+
+      for (const task of ready) {
+        started.add(task.id)
+        running++
+        void runTask(task)
+      }
+
+      if (running === 0 && verifying === 0 && started.size === tasks.length) {
+        resolveDone()
+      }
     }
-    return undefined
+
+    launchReady()
+    await done
   }
 
-  // Execute a single task in a fresh session with strict scoping
-  const executeTask = async (task: RalphTask, loop: RalphLoop, taskIndex: number, totalTasks: number): Promise<void> => {
+  // Run one ralph_loop iteration in a fresh session and record how it ended
+  const runIteration = async (loop: RalphLoop, iteration: LoopIteration): Promise<void> => {
+    let watchdog: ReturnType<typeof startWatchdog> | undefined
+    let sessionId: string | undefined
     try {
-      // Create a fresh session for this task
       const sessionResponse = await client.session.create({ body: {} })
       const session = sessionResponse?.data
       if (!session) {
-        task.status = "failed"
-        task.error = "Failed to create session"
+        throw new Error("Failed to create session")
+      }
+      sessionId = session.id
+      iteration.sessionId = session.id
+      journal(loop, { type: "session_created", sessionId: session.id, role: "iteration", attempt: iteration.iteration })
+      activeSessions.set(session.id, { loopId: loop.id, taskId: `iteration_${iteration.iteration}`, createdAt: Date.now(), lastEventAt: Date.now() })
+      checkpointLoop(loop)
+
+      watchdog = startWatchdog({
+        startedAt: iteration.startedAt,
+        timeoutMs: loop.taskTimeoutMs,
+        inactivityTimeoutMs: loop.inactivityTimeoutMs,
+        lastActivityAt: () => activeSessions.get(session.id)?.lastEventAt ?? iteration.startedAt,
+      })
+      const timedOut = await promptWorker(session.id, formatIterationPrompt(loop, iteration.iteration), loop.model, undefined, watchdog)
+      if (timedOut) {
+        iteration.status = "timed_out"
+        iteration.error = timedOut
+        return
+      }
+      if (loop.stopRequested === "cancel") {
+        iteration.status = "cancelled"
+        iteration.error = "Cancelled by ralph_cancel"
         return
       }
-      task.sessionId = session.id
-      task.status = "in_progress"
-      
-      // Track this active session
-      activeSessions.set(session.id, { taskId: task.id, createdAt: Date.now() })
 
-      // Strict worker prompt that enforces boundaries
-      const workerPrompt = `# SINGLE TASK EXECUTION - STRICT BOUNDARIES
+      const reply = await getFinalAssistantMessage(session.id)
+      iteration.tail = reply.text.slice(-1500) || undefined
+      if (reply.error) {
+        iteration.status = "failed"
+        iteration.error = reply.error
+        return
+      }
+      iteration.status = await checkIterationComplete(loop.iterate!, reply.text, directory) ? "done" : "not_done"
+    } catch (e) {
+      iteration.status = "failed"
+      iteration.error = e instanceof Error ? e.message : String(e)
+    } finally {
+      watchdog?.stop()
+      if (sessionId) {
+        activeSessions.delete(sessionId)
+        iteration.usage = await chargeSessions(loop, [sessionId])
+      }
+      iteration.finishedAt = Date.now()
+      journal(loop, { type: "iteration_finished", sessionId, attempt: iteration.iteration, status: iteration.status, error: iteration.error })
+      checkpointLoop(loop)
+    }
+  }
 
-## YOUR ONLY TASK (Task ${taskIndex}/${totalTasks})
-${task.content}
+  // Run ralph_loop iterations until one passes the completion check, the iteration cap is reached
+  // or the loop is paused or cancelled. Appends progress to results.
+  const runIterations = async (loop: RalphLoop, results: string[]): Promise<void> => {
+    const settings = loop.iterate!
+    const iterations = (loop.iterations = loop.iterations || [])
 
-## ORIGINAL PROJECT CONTEXT
-"${loop.originalPrompt}"
+    while (iterations.length < settings.maxIterations && !loop.stopRequested && !checkBudget(loop)) {
+      const iteration: LoopIteration = { iteration: iterations.length + 1, startedAt: Date.now(), status: "in_progress" }
+      iterations.push(iteration)
+      journal(loop, { type: "iteration_started", attempt: iteration.iteration })
+      results.push(`>>> Iteration ${iteration.iteration}/${settings.maxIterations} started`)
 
-## CRITICAL RULES - READ CAREFULLY
-1. **ONLY** complete the task described above - nothing else
-2. **DO NOT** work on any other tasks from the project
-3. **DO NOT** anticipate or prepare for future tasks
-4. **DO NOT** refactor or improve code outside your task scope
-5. **STOP** immediately when your specific task is complete
+      await runIteration(loop, iteration)
+      results.push(formatIteration(iteration, ""))
+      if (iteration.status === "done") return
 
-## WHAT YOU MUST DO
-- Focus exclusively on: "${task.content}"
-- Complete this single task thoroughly
-- Test your specific changes if applicable
-- Document only what you created/modified
+      if (settings.cooldownMs && iterations.length < settings.maxIterations && !loop.stopRequested && !checkBudget(loop)) {
+        await sleep(settings.cooldownMs)
+      }
+    }
+  }
 
-## COMPLETION
-When done, output exactly:
-\`\`\`
-TASK_COMPLETE
-Summary: [1-2 sentence summary of what was done]
-Files: [list of files created/modified]
-\`\`\`
+  // Start (or continue) a ralph_loop loop in the foreground or background
+  const startIterations = async (loop: RalphLoop, background: boolean | undefined): Promise<string> => {
+    const settings = loop.iterate!
+    const finished = (loop.iterations || []).find(i => i.status === "done")
+    if (finished) {
+      return `Ralph loop ${loop.id} is already done: the completion check passed in iteration ${finished.iteration}.`
+    }
+    if ((loop.iterations || []).length >= settings.maxIterations) {
+      return `Ralph loop ${loop.id} has used all ${settings.maxIterations} iterations. Continue with ralph_loop --loopId ${loop.id} --maxIterations N.`
+    }
+    const overBudget = checkBudget(loop)
+    if (overBudget) {
+      return `Error: ${overBudget}. Raise --maxTokens / --maxCost to keep going.`
+    }
 
-## BEGIN
-Start working on your task now. Remember: ONLY this task, nothing more.`
+    const results: string[] = []
+    results.push(`Starting Ralph loop ${loop.id}: same prompt until done (${(loop.iterations || []).length}/${settings.maxIterations} iterations so far)`)
+    results.push(`Completion check: ${formatCompletionCheck(settings)}`)
+    results.push(``)
+
+    loop.stopRequested = undefined
+    loop.running = true
+    runLogs.set(loop.id, results)
+    checkpointLoop(loop)
+
+    return startRun(loop, background, async () => {
+      await runIterations(loop, results)
+
+      const iterations = loop.iterations || []
+      const done = iterations.find(i => i.status === "done")
+      const overBudget = checkBudget(loop)
+      results.push(`\n--- Ralph Loop Complete ---`)
+      results.push(`Iterations: ${iterations.length}/${settings.maxIterations}`)
+      results.push(`Usage: ${formatUsage(loop.usage)}`)
+      if (done) {
+        results.push(`Result: DONE - completion check passed in iteration ${done.iteration}`)
+      } else if (overBudget) {
+        results.push(`Result: STOPPED - ${overBudget}; raise --maxTokens / --maxCost to keep going`)
+      } else if (loop.stopRequested) {
+        results.push(`Result: ${loop.stopRequested === "cancel" ? "CANCELLED" : "PAUSED"} - continue with ralph_loop --loopId ${loop.id}`)
+      } else {
+        results.push(`Result: NOT DONE - iteration cap reached; raise --maxIterations to keep going`)
+      }
+      results.push(`\n<ralph_done>Ran ${iterations.length} iterations</ralph_done>`)
 
-      // session.prompt() waits for the full response
-      await client.session.prompt({
-        path: { id: session.id },
-        body: {
-          ...(loop.model ? { model: loop.model } : {}),
-          parts: [{ type: "text", text: workerPrompt }],
-        },
-      })
+      return results.join("\n")
+    })
+  }
 
-      task.status = "completed"
-    } catch (e) {
-      task.status = "failed"
-      task.error = e instanceof Error ? e.message : String(e)
-    } finally {
-      // Untrack this session regardless of outcome
-      if (task.sessionId) {
-        activeSessions.delete(task.sessionId)
+  // Plan a request, then plan every oversized task (flagged by the planner, or by size) again into subtasks,
+  // up to maxDepth levels down. Subtasks follow their parent, with IDs prefixed by the parent's ID.
+  const planTaskTree = async (loop: RalphLoop, request: string, model: ModelConfig | undefined, maxDepth: number, originalPrompt = request): Promise<TaskWithDeps[]> => {
+    const plan = await breakDownPrompt(request, model, loop)
+    if (maxDepth <= 0) return plan
+
+    const tree: TaskWithDeps[] = []
+    for (const task of plan) {
+      tree.push(task)
+      if (!isOversized(task)) continue
+
+      let subtasks: TaskWithDeps[]
+      try {
+        subtasks = await planTaskTree(loop, formatSubtaskRequest(task, originalPrompt), model, maxDepth - 1, originalPrompt)
+      } catch (e) {
+        continue // Run the task whole rather than lose the plan
       }
+      // A plan of one task is the same task again
+      if (subtasks.filter(t => !t.parentId).length < 2) continue
+
+      const prefix = (id: string) => `${task.id}.${id}`
+      tree.push(...subtasks.map(t => ({
+        ...t,
+        id: prefix(t.id),
+        dependencies: t.dependencies.map(prefix),
+        parentId: t.parentId ? prefix(t.parentId) : task.id,
+      })))
     }
+    return tree
   }
 
-  // Execute multiple tasks in parallel
-  const executeTasksParallel = async (tasks: RalphTask[], loop: RalphLoop, startIndex: number, totalTasks: number): Promise<void> => {
-    const promises = tasks.map((task, i) => 
-      executeTask(task, loop, startIndex + i + 1, totalTasks)
-    )
-    await Promise.all(promises)
-  }
-
-  // Use an AI session to break down a prompt into atomic tasks with dependencies
-  const breakDownPrompt = async (prompt: string, model?: ModelConfig): Promise<TaskWithDeps[]> => {
+  // Use an AI session to break down a prompt into atomic tasks with dependencies.
+  // The planner replies with a JSON plan; an invalid plan gets one repair round-trip in the same session.
+  // The planning session is charged to the loop.
+  const breakDownPrompt = async (prompt: string, model: ModelConfig | undefined, loop: RalphLoop): Promise<TaskWithDeps[]> => {
     // Create a planning session
     const sessionResponse = await client.session.create({ body: {} })
     const session = sessionResponse?.data
     if (!session) {
       throw new Error("Failed to create planning session")
     }
+    journal(loop, { type: "session_created", sessionId: session.id, role: "planner" })
+
+    const planningPrompt = renderPromptTemplate(loadTemplate(loadRalphConfig(directory).config.templates.planner) || DEFAULT_PLANNER_TEMPLATE, {
+      request: prompt,
+      directory,
+      projectContext: loadProjectContext(directory),
+      planFormat: PLAN_FORMAT,
+    }, "planFormat")
+
+    // Send a prompt to the planning session and return the planner's reply
+    const ask = async (text: string): Promise<string> => {
+      const promptResponse = await client.session.prompt({
+        path: { id: session.id },
+        body: {
+          ...(model ? { model } : {}),
+          parts: [{ type: "text", text }],
+        },
+      })
+      if (promptResponse?.error) {
+        throw new Error(`Planning prompt failed: ${JSON.stringify(promptResponse.error)}`)
+      }
 
-    const planningPrompt = `You are an expert task planner for software engineering projects. Break down this request into ATOMIC, INDEPENDENT tasks.
-
-## Request
-${prompt}
-
-## CRITICAL RULES FOR TASK BREAKDOWN
-
-### 1. ATOMIC TASKS
-Each task MUST be:
-- Completable in a single focused session (15-30 min of work)
-- Self-contained with clear boundaries
-- Specific enough that there's no ambiguity about scope
-
-### 2. INDEPENDENCE
-- Tasks that don't depend on each other should be marked as independent
-- Use [DEPENDS: task_ids] to mark dependencies
-- Independent tasks will run IN PARALLEL for speed
-
-### 3. STRICT FORMAT
-Output ONLY a numbered list in this EXACT format:
-\`\`\`
-1. [Task description] | DEPENDS: none | OUTPUTS: [what this creates]
-2. [Task description] | DEPENDS: 1 | OUTPUTS: [what this creates]
-3. [Task description] | DEPENDS: none | OUTPUTS: [what this creates]
-4. [Task description] | DEPENDS: 2,3 | OUTPUTS: [what this creates]
-\`\`\`
-
-### 4. EXAMPLES OF GOOD VS BAD TASKS
-
-BAD (too broad):
-- "Implement the backend" 
-- "Create the UI"
-
-GOOD (atomic):
-- "Create User model with fields: id, email, password_hash, created_at"
-- "Implement POST /api/auth/login endpoint that validates credentials and returns JWT"
-- "Create LoginForm component with email and password inputs"
-
-### 5. PARALLELIZATION HINTS
-- File/module creation tasks are often independent
-- Tests usually depend on the code they test
-- Integration tasks depend on the components they integrate
-
-## OUTPUT
-Now break down the request into atomic tasks with dependencies:
-\`\`\`
-`
-
-    await client.session.prompt({
-      path: { id: session.id },
-      body: {
-        ...(model ? { model } : {}),
-        parts: [{ type: "text", text: planningPrompt }],
-      },
-    })
-
-    // Extract the response
-    const messages = await client.session.messages({
-      path: { id: session.id },
-      query: { limit: 10 },
-    })
-    
-    const assistantMessage = messages?.data?.find(m => m.info.role === "assistant")
-    if (!assistantMessage) {
-      throw new Error("No response from planning session")
-    }
-
-    const textParts = assistantMessage.parts.filter(p => p.type === "text")
-    const responseText = textParts.map(p => (p as any).text || "").join("\n")
-
-    // Parse the structured format
-    const lines = responseText.split("\n")
-    const tasks: TaskWithDeps[] = []
-    
-    for (const line of lines) {
-      // Match: "1. Task description | DEPENDS: 1,2 | OUTPUTS: something"
-      const fullMatch = line.match(/^\d+[\.\)]\s*(.+?)\s*\|\s*DEPENDS:\s*([\w,\s]+)\s*\|\s*OUTPUTS:\s*(.+)$/i)
-      if (fullMatch) {
-        const content = fullMatch[1].trim()
-        const depsStr = fullMatch[2].trim().toLowerCase()
-        const outputs = fullMatch[3].trim()
-        
-        const deps = depsStr === "none" ? [] : 
-          depsStr.split(",").map(d => d.trim()).filter(d => d && d !== "none")
-        
-        tasks.push({
-          id: `task_${tasks.length + 1}`,
-          content,
-          dependencies: deps.map(d => `task_${d}`),
-          outputs: [outputs],
-        })
-        continue
+      const reply = await getFinalAssistantMessage(session.id)
+      if (reply.error) {
+        throw new Error(`Planning session failed: ${reply.error}`)
       }
-      
-      // Fallback: simple numbered list
-      const simpleMatch = line.match(/^\d+[\.\)]\s*(.+)/)
-      if (simpleMatch && simpleMatch[1].trim()) {
-        const content = simpleMatch[1].trim()
-        // Don't add if it looks like format instructions
-        if (!content.includes("DEPENDS:") && !content.includes("OUTPUTS:") && content.length > 10) {
-          tasks.push({
-            id: `task_${tasks.length + 1}`,
-            content,
-            dependencies: [],
-            outputs: [],
-          })
-        }
+      if (!reply.text.trim()) {
+        throw new Error("No response from planning session")
       }
+      return reply.text
     }
 
-    // If we didn't get structured dependencies, analyze them
-    if (tasks.length > 0 && tasks.every(t => t.dependencies.length === 0)) {
-      const depMap = analyzeDependencies(tasks)
-      for (const task of tasks) {
-        task.dependencies = depMap.get(task.id) || []
+    try {
+      const plan = parsePlan(await ask(planningPrompt))
+      if (plan.errors.length === 0) return plan.tasks
+
+      // One repair round-trip: show the planner what was wrong and ask for the whole plan again
+      const repaired = parsePlan(await ask(`Your plan is not valid:
+${plan.errors.map(e => `- ${e}`).join("\n")}
+
+Reply with the complete corrected plan as a JSON object in the same shape, with no prose around it.`))
+      if (repaired.errors.length > 0) {
+        throw new Error(`Planner returned an invalid plan after one repair attempt:\n${repaired.errors.map(e => `  - ${e}`).join("\n")}`)
       }
+      return repaired.tasks
+    } finally {
+      loop.planningUsage = addUsage(loop.planningUsage, await chargeSessions(loop, [session.id]))
+      checkpointLoop(loop)
     }
-
-    return tasks
   }
 
   return {
@@ -469,6 +3056,14 @@ Now break down the request into atomic tasks with dependencies:
       if (event.type === "todo.updated" && event.properties) {
         lastKnownTodos = event.properties.todos || []
       }
+
+      // Any event from a worker session counts as activity for its inactivity watchdog
+      const props = event.properties as { sessionID?: string; info?: { sessionID?: string }; part?: { sessionID?: string } } | undefined
+      const sessionID = props?.sessionID || props?.part?.sessionID || props?.info?.sessionID
+      const session = sessionID ? activeSessions.get(sessionID) : undefined
+      if (session) {
+        session.lastEventAt = Date.now()
+      }
     },
 
     tool: {
@@ -478,150 +3073,137 @@ Now break down the request into atomic tasks with dependencies:
         args: {
           prompt: tool.schema.string().describe("The complex task to break down and execute"),
           model: tool.schema.string().optional().describe("Model to use (format: provider/model). Defaults to current session's model."),
-          serial: tool.schema.boolean().optional().describe("Execute tasks serially instead of in parallel (reduces API call frequency). Default: false"),
+          plannerModel: plannerModelArg,
+          maxPlanDepth: maxPlanDepthArg,
+          routes: routesArg,
+          background: tool.schema.boolean().optional().describe("Return the loop ID immediately and keep running in the plugin process. Follow progress with ralph_status. Default: false"),
+          ...concurrencyArgs,
+          ...retryArgs,
+          ...timeoutArgs,
+          ...verificationArgs,
+          ...budgetArgs,
+          onFailure: onFailureArg,
+          isolation: isolationArg,
         },
-        async execute({ prompt, model, serial }, ctx) {
+        async execute({ prompt, model, plannerModel, maxPlanDepth, routes, background, serial, maxConcurrency, providerConcurrency, onFailure, isolation, taskTimeoutMs, inactivityTimeoutMs, verifyCommands, verifyAfterLayer, fixAttempts, maxTokens, maxCost, ...retry }, ctx) {
+          const { config, error: configError } = loadRalphConfig(directory)
+          if (configError) return `Error: ${configError}`
+          if ((isolation || config.isolation) === "worktree") {
+            const unsupported = await checkWorktreeSupport(directory)
+            if (unsupported) return unsupported
+          }
+          const routing = parseModelRoutes(routes || [])
+          if (routing.error) return `Error: ${routing.error}`
+          const plannerConfig = plannerModel ? parseModelString(plannerModel) : undefined
+          if (plannerModel && !plannerConfig) return `Error: invalid plannerModel "${plannerModel}" (expected provider/model)`
+
           let modelConfig: ModelConfig
           
           if (model) {
             modelConfig = parseModelString(model) || DEFAULT_MODEL
           } else {
-            modelConfig = await getSessionModel(ctx.sessionID) || DEFAULT_MODEL
+            modelConfig = config.model || await getSessionModel(ctx.sessionID) || DEFAULT_MODEL
           }
 
           const modelInfo = `${modelConfig.providerID}/${modelConfig.modelID}`
-          const executeSerial = serial === true
-
-          const results: string[] = []
-          results.push(`Ralph Auto-Loop Starting`)
-          results.push(`=========================`)
-          results.push(`Prompt: "${prompt}"`)
-          results.push(`Model: ${modelInfo}`)
-          results.push(`Mode: ${executeSerial ? "SERIAL (one task at a time)" : "PARALLEL (max concurrency)"}`)
-          results.push(``)
-
-          // Step 1: Break down the prompt into tasks with dependencies
-          results.push(`Step 1: Planning tasks with dependency analysis...`)
-          let taskDescriptions: TaskWithDeps[]
-          try {
-            taskDescriptions = await breakDownPrompt(prompt, modelConfig)
-          } catch (e) {
-            return `Failed to break down prompt: ${e instanceof Error ? e.message : String(e)}`
-          }
-
-          if (taskDescriptions.length === 0) {
-            return `Failed to extract tasks from planning session. Please try again or use ralph_start for manual task definition.`
-          }
 
-          results.push(`Identified ${taskDescriptions.length} tasks:`)
-          taskDescriptions.forEach((t, i) => {
-            const deps = t.dependencies.length > 0 ? ` [depends: ${t.dependencies.join(", ")}]` : " [independent]"
-            results.push(`  ${i + 1}. ${t.content}${deps}`)
-          })
-          results.push(``)
-
-          // Step 2: Create the loop with dependency info
+          // Register the loop before planning so a background run has an ID to hand back
           const loop: RalphLoop = {
             id: `ralph_auto_${Date.now()}`,
             originalPrompt: prompt,
-            tasks: taskDescriptions.map((t) => ({
-              id: t.id,
-              content: t.content,
-              status: "pending" as const,
-              dependencies: t.dependencies,
-              outputs: t.outputs,
-            })),
+            tasks: [],
             currentTaskIndex: -1,
             createdAt: Date.now(),
+            ...loopSettingsFromConfig(config),
             model: modelConfig,
             running: true,
           }
+          applyLoopArgs(loop, {
+            serial, maxConcurrency, providerConcurrency, onFailure, isolation, taskTimeoutMs, inactivityTimeoutMs,
+            verifyCommands, verifyAfterLayer, fixAttempts, maxPlanDepth, maxTokens, maxCost,
+            plannerModel: plannerConfig || undefined,
+            routes: routes ? routing.routes : undefined,
+            retry: retryPolicyFromArgs(retry),
+          })
 
-          activeLoop = loop
+          loops.set(loop.id, loop)
+          journal(loop, { type: "loop_created", prompt: loop.originalPrompt, mode: "tasks" })
+          if (!activeLoopId) activeLoopId = loop.id
+          checkpointLoop(loop)
 
-          // Step 3: Build execution layers for parallelization
-          const layers = buildExecutionLayers(loop.tasks)
-          
-          results.push(`Step 2: Executing tasks${executeSerial ? " serially" : ` (${layers.length} parallel layers)`}...`)
+          const results: string[] = []
+          runLogs.set(loop.id, results)
+          results.push(`Ralph Auto-Loop Starting`)
+          results.push(`=========================`)
+          results.push(`Loop ID: ${loop.id}`)
+          results.push(`Prompt: "${prompt}"`)
+          results.push(`Model: ${modelInfo}`)
+          results.push(...formatModelRouting(loop))
+          results.push(`Mode: ${formatConcurrency(loop)}`)
+          if (loop.isolation === "worktree") results.push(`Isolation: git worktree per task`)
           results.push(``)
 
-          let taskCounter = 0
-          
-          if (executeSerial) {
-            // Serial execution: one task at a time
-            for (const task of loop.tasks) {
-              taskCounter++
-              results.push(`=== Task ${taskCounter}/${loop.tasks.length} (serial) ===`)
-              
-              await executeTask(task, loop, taskCounter, loop.tasks.length)
-              
-              results.push(``)
-              results.push(`--- Task ${taskCounter}/${loop.tasks.length} ---`)
-              results.push(`Task: ${task.content}`)
-              
-              if (task.status === "completed") {
-                results.push(`Session: ${task.sessionId}`)
-                results.push(`Status: COMPLETED`)
-              } else {
-                results.push(`Session: ${task.sessionId || "N/A"}`)
-                results.push(`Status: FAILED - ${task.error || "Unknown error"}`)
-              }
-              results.push(``)
+          // Stop before execution, keeping the message in the run log for background runs
+          const fail = (message: string) => {
+            results.push(message)
+            return message
+          }
+
+          return startRun(loop, background, async () => {
+            // Step 1: Break down the prompt into tasks with dependencies
+            results.push(`Step 1: Planning tasks with dependency analysis...`)
+            let taskDescriptions: TaskWithDeps[]
+            try {
+              taskDescriptions = await planTaskTree(loop, prompt, loop.plannerModel || modelConfig, loop.maxPlanDepth ?? DEFAULT_MAX_PLAN_DEPTH)
+            } catch (e) {
+              return fail(`Failed to break down prompt: ${e instanceof Error ? e.message : String(e)}`)
             }
-          } else {
-            // Parallel execution: layer by layer
-            for (let layerIdx = 0; layerIdx < layers.length; layerIdx++) {
-              const layer = layers[layerIdx]
-              const parallelCount = layer.length
-              
-              results.push(`=== Layer ${layerIdx + 1}/${layers.length} (${parallelCount} task${parallelCount > 1 ? "s in parallel" : ""}) ===`)
-              
-              if (parallelCount > 1) {
-                results.push(`Running ${parallelCount} tasks in PARALLEL...`)
-              }
 
-              // Execute layer tasks in parallel
-              await executeTasksParallel(layer, loop, taskCounter, loop.tasks.length)
-
-              // Report results for this layer
-              for (const task of layer) {
-                taskCounter++
-                results.push(``)
-                results.push(`--- Task ${taskCounter}/${loop.tasks.length} ---`)
-                results.push(`Task: ${task.content}`)
-                
-                if (task.status === "completed") {
-                  results.push(`Session: ${task.sessionId}`)
-                  results.push(`Status: COMPLETED`)
-                } else {
-                  results.push(`Session: ${task.sessionId || "N/A"}`)
-                  results.push(`Status: FAILED - ${task.error || "Unknown error"}`)
-                }
-              }
-              results.push(``)
+            if (taskDescriptions.length === 0) {
+              return fail(`Failed to extract tasks from planning session. Please try again or use ralph_start for manual task definition.`)
             }
-          }
 
-          loop.running = false
+            const issues = validateTaskGraph(taskDescriptions)
+            if (issues.length > 0) {
+              return fail(`Planner produced an invalid task graph - nothing was run.\n\n${formatGraphIssues(issues)}\n\nPlease try again or use ralph_start for manual task definition.`)
+            }
 
-          // Summary
-          const completedCount = loop.tasks.filter(t => t.status === "completed").length
-          const failedCount = loop.tasks.filter(t => t.status === "failed").length
-          
-          results.push(`=========================`)
-          results.push(`Ralph Auto-Loop Complete`)
-          results.push(`=========================`)
-          results.push(`Completed: ${completedCount}/${loop.tasks.length}`)
-          if (failedCount > 0) results.push(`Failed: ${failedCount}`)
-          results.push(`Execution mode: ${executeSerial ? "serial" : `parallel (${layers.length} layers)`}`)
-          results.push(``)
-          results.push(`Sessions created:`)
-          loop.tasks.forEach((t, i) => {
-            results.push(`  ${i + 1}. [${t.status}] ${t.sessionId || "N/A"}`)
-          })
+            // Step 2: Load the planned tasks with dependency info
+            loop.tasks = tasksFromPlan(taskDescriptions)
+            const inferred = formatInferredDependencies(inferPlanDependencies(loop.tasks), "  ")
+            journalTasks(loop, "task_added", loop.tasks)
+            checkpointLoop(loop)
+
+            results.push(`Identified ${taskDescriptions.length} tasks:`)
+            taskTree(loop.tasks).forEach(({ task: t, depth }, i) => {
+              const deps = t.dependencies && t.dependencies.length > 0 ? ` [depends: ${t.dependencies.join(", ")}]` : " [independent]"
+              const complexity = t.complexity ? ` (${t.complexity})` : ""
+              const subtasks = subtasksOf(loop.tasks, t.id).length
+              results.push(`  ${"  ".repeat(depth)}${i + 1}. ${t.content}${deps}${complexity}${subtasks > 0 ? ` (split into ${subtasks} subtasks)` : ""}`)
+            })
+            if (inferred.length > 0) results.push(`Inferred dependencies (the plan had none):`, ...inferred)
+            results.push(``)
 
-          activeLoop = null
-          return results.join("\n")
+            // Step 3: Execute - each task starts as soon as its dependencies finish
+            results.push(`Step 2: Executing tasks as their dependencies complete...`)
+            results.push(``)
+
+            await scheduleTasks(loop, loop.tasks, results)
+
+            // Summary
+            results.push(`=========================`)
+            results.push(`Ralph Auto-Loop Complete`)
+            results.push(`=========================`)
+            results.push(...formatRunSummary(loop))
+            results.push(`Execution mode: ${formatConcurrency(loop).toLowerCase()}`)
+            results.push(``)
+            results.push(`Sessions created:`)
+            loop.tasks.forEach((t, i) => {
+              results.push(`  ${i + 1}. [${t.status}] ${t.sessionId || "N/A"}${t.modelUsed ? ` (${formatModel(t.modelUsed)})` : ""}${t.usage ? ` - ${formatCost(t.usage.cost)}` : ""}`)
+            })
+
+            return results.join("\n")
+          })
         },
       }),
 
@@ -631,8 +3213,26 @@ Now break down the request into atomic tasks with dependencies:
         args: {
           prompt: tool.schema.string().describe("The task prompt to break down and execute"),
           model: tool.schema.string().optional().describe("Model to use for worker sessions (format: provider/model, e.g. 'anthropic/claude-opus-4-5-20250929'). If not specified, uses the orchestrator's current model."),
+          plannerModel: plannerModelArg,
+          routes: routesArg,
+          ...retryArgs,
+          ...timeoutArgs,
+          ...verificationArgs,
+          ...budgetArgs,
+          onFailure: onFailureArg,
+          isolation: isolationArg,
         },
-        async execute({ prompt, model }, ctx) {
+        async execute({ prompt, model, plannerModel, routes, onFailure, isolation, taskTimeoutMs, inactivityTimeoutMs, verifyCommands, verifyAfterLayer, fixAttempts, maxTokens, maxCost, ...retry }, ctx) {
+          const { config, error: configError } = loadRalphConfig(directory)
+          if (configError) return `Error: ${configError}`
+          if ((isolation || config.isolation) === "worktree") {
+            const unsupported = await checkWorktreeSupport(directory)
+            if (unsupported) return unsupported
+          }
+          const routing = parseModelRoutes(routes || [])
+          if (routing.error) return `Error: ${routing.error}`
+          const plannerConfig = plannerModel ? parseModelString(plannerModel) : undefined
+          if (plannerModel && !plannerConfig) return `Error: invalid plannerModel "${plannerModel}" (expected provider/model)`
           lastKnownTodos = []
           
           let modelConfig: ModelConfig
@@ -640,109 +3240,406 @@ Now break down the request into atomic tasks with dependencies:
           if (model) {
             modelConfig = parseModelString(model) || DEFAULT_MODEL
           } else {
-            modelConfig = await getSessionModel(ctx.sessionID) || DEFAULT_MODEL
+            modelConfig = config.model || await getSessionModel(ctx.sessionID) || DEFAULT_MODEL
           }
           
-          activeLoop = {
+          const loop: RalphLoop = {
             id: `ralph_${Date.now()}`,
             originalPrompt: prompt,
             tasks: [],
             currentTaskIndex: -1,
             createdAt: Date.now(),
+            ...loopSettingsFromConfig(config),
             model: modelConfig,
             running: false,
           }
+          applyLoopArgs(loop, {
+            onFailure, isolation, taskTimeoutMs, inactivityTimeoutMs, verifyCommands, verifyAfterLayer, fixAttempts, maxTokens, maxCost,
+            plannerModel: plannerConfig || undefined,
+            routes: routes ? routing.routes : undefined,
+            retry: retryPolicyFromArgs(retry),
+          })
+          loops.set(loop.id, loop)
+          journal(loop, { type: "loop_created", prompt: loop.originalPrompt, mode: "tasks" })
+          activeLoopId = loop.id
+          checkpointLoop(loop)
 
           const modelInfo = `${modelConfig.providerID}/${modelConfig.modelID}`
+          const otherLoops = loops.size - 1
 
           return `Ralph Wiggum loop initialized.
+Loop ID: ${loop.id}${otherLoops > 0 ? ` (${otherLoops} other loop${otherLoops > 1 ? "s" : ""} kept - see ralph_list)` : ""}
+
+## Your Task
+"${prompt}"
+
+## Model
+Worker sessions will use: ${modelInfo}
+${model ? "(explicitly specified)" : config.model ? `(from ${CONFIG_FILE})` : "(default: opencode/opencode-zen-big-pickle)"}
+${formatModelRouting(loop).map(line => `${line}\n`).join("")}
+## Next Steps (you are the orchestrator)
+1. Use \`ralph_add_tasks\` to add ATOMIC tasks with dependencies
+2. Then call \`ralph_run\` to begin - independent tasks will run IN PARALLEL
+3. You'll stay in control and monitor progress
+
+## Task Format
+When adding tasks, you can specify dependencies:
+- Tasks with no dependencies will run in parallel
+- Tasks with dependencies wait for those to complete
+
+Create the task list now using ralph_add_tasks.`
+        },
+      }),
+
+      ralph_add_tasks: tool({
+        description: "Add tasks directly to the Ralph loop. Use this after ralph_start to add tasks that will be executed, or after ralph_plan to insert tasks into the plan. Tasks can include dependencies for automatic parallelization; for tasks without them, dependencies are inferred from the files, identifiers and outputs earlier tasks produce, each with its reason.",
+        args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop to add to (see ralph_list). Default: the active loop"),
+          after: tool.schema.string().optional().describe("Insert the new tasks after this task ID instead of at the end. Order only affects display and task numbering; dependencies decide when tasks run"),
+          tasks: tool.schema.array(tool.schema.object({
+            id: tool.schema.string().describe("Unique task ID (e.g., 'task_1', 'setup', 'tests')"),
+            content: tool.schema.string().describe("Task description - be specific and atomic"),
+            dependencies: tool.schema.array(tool.schema.string()).optional().describe("Array of task IDs this task depends on. Empty = independent = can run in parallel. Omit to have them inferred"),
+            outputs: tool.schema.array(tool.schema.string()).optional().describe("What this task produces (files, identifiers, artifacts) - later tasks that mention them depend on it"),
+            model: tool.schema.string().optional().describe("Model for this task (format: provider/model). Overrides routing rules and the loop's model"),
+            tags: tool.schema.array(tool.schema.string()).optional().describe("Tags matched by routing rules (e.g. ['docs'])"),
+            complexity: tool.schema.enum(TASK_COMPLEXITIES).optional().describe("low, medium or high - matched by routing rules"),
+            files: tool.schema.array(tool.schema.string()).optional().describe("Files this task is expected to create or modify"),
+            acceptanceCriteria: tool.schema.array(tool.schema.string()).optional().describe("Conditions the worker must meet before reporting the task complete"),
+            timeoutMs: tool.schema.number().int().min(1).optional().describe("Time limit per attempt of this task. Overrides the loop's taskTimeoutMs"),
+            maxAttempts: retryArgs.maxAttempts,
+            retryOn: retryArgs.retryOn,
+          })).describe("Array of tasks to add"),
+          inferDependencies: tool.schema.boolean().optional().describe("Infer dependencies for tasks given without them. Default: true"),
+        },
+        async execute({ loopId, after, tasks, inferDependencies }, ctx) {
+          const loop = resolveLoop(loopId)
+          if (!loop) {
+            return missingLoopMessage(loopId)
+          }
+          if (loop.iterate) {
+            return `Error: Loop ${loop.id} runs a single prompt (ralph_loop) and has no task list.`
+          }
+          // A running scheduler has already picked its tasks: new ones would silently wait for the next run
+          if (loop.running) {
+            return "Error: Ralph loop is running. Pause it with ralph_pause before editing the plan."
+          }
+
+          const insertAt = after === undefined ? loop.tasks.length : loop.tasks.findIndex(t => t.id === after) + 1
+          if (after !== undefined && insertAt === 0) {
+            return `Error: No task "${after}" to insert after - no tasks were added.`
+          }
+
+          // Tasks given without dependencies depend on the earlier tasks whose products they mention
+          const inferred = inferDependencies === false ? new Map<string, InferredDependency[]>() : analyzeDependencies(
+            [...loop.tasks.slice(0, insertAt), ...tasks, ...loop.tasks.slice(insertAt)],
+            tasks.filter(t => t.dependencies === undefined).map(t => t.id),
+          )
+          const dependenciesOf = (task: { id: string; dependencies?: string[] }) =>
+            task.dependencies || (inferred.get(task.id) || []).map(d => d.dependsOn)
+
+          const badModel = tasks.find(t => t.model && !parseModelString(t.model))
+          if (badModel) {
+            return `Error: Task ${badModel.id} has invalid model "${badModel.model}" (expected provider/model) - no tasks were added.`
+          }
+
+          const added = tasks.map((task): RalphTask => ({
+            id: task.id,
+            content: task.content,
+            status: "pending",
+            dependencies: dependenciesOf(task),
+            outputs: task.outputs,
+            retry: retryPolicyFromArgs(task),
+            model: task.model ? parseModelString(task.model) || undefined : undefined,
+            tags: task.tags,
+            complexity: task.complexity,
+            files: task.files,
+            acceptanceCriteria: task.acceptanceCriteria,
+            timeoutMs: task.timeoutMs,
+          }))
+
+          // Validate the combined plan before touching the loop
+          const issues = validateLoopGraph([...loop.tasks, ...added])
+          if (issues.length > 0) {
+            return `Error: Invalid task graph - no tasks were added.\n\n${formatGraphIssues(issues)}\n\nFix the task IDs/dependencies and call ralph_add_tasks again.`
+          }
+
+          loop.tasks.splice(insertAt, 0, ...added)
+          journalTasks(loop, "task_added", added)
+          checkpointLoop(loop)
+
+          const inferredLines = formatInferredDependencies(inferred, "  ")
+          const inferredSection = inferredLines.length > 0
+            ? `\n\nInferred dependencies (override with ralph_set_dependencies, or pass dependencies explicitly):\n${inferredLines.join("\n")}`
+            : ""
+
+          return `Added ${tasks.length} tasks to Ralph loop. Total tasks: ${loop.tasks.length}${inferredSection}
+
+${formatPlan(loop)}
+
+Call \`ralph_run\` to start executing. Independent tasks will run in parallel!`
+        },
+      }),
+
+      ralph_plan: tool({
+        description: "Plan without executing - break a prompt down into tasks and load them into a loop so the plan can be reviewed and edited (ralph_edit_task, ralph_remove_task, ralph_set_dependencies, ralph_add_tasks) before ralph_run.",
+        args: {
+          prompt: tool.schema.string().optional().describe("The request to plan. Default: the loop's original prompt"),
+          loopId: tool.schema.string().optional().describe("ID of the loop to plan into (see ralph_list). Default: the active loop, or a new loop if there is none"),
+          model: tool.schema.string().optional().describe("Worker model for a new loop (format: provider/model). Defaults to current session's model."),
+          plannerModel: plannerModelArg,
+          maxPlanDepth: maxPlanDepthArg,
+          replace: tool.schema.boolean().optional().describe("Replace the loop's existing tasks with the new plan. Default: false"),
+        },
+        async execute({ prompt, loopId, model, plannerModel, maxPlanDepth, replace }, ctx) {
+          const { config, error: configError } = loadRalphConfig(directory)
+          if (configError) return `Error: ${configError}`
+          const plannerConfig = plannerModel ? parseModelString(plannerModel) : undefined
+          if (plannerModel && !plannerConfig) return `Error: invalid plannerModel "${plannerModel}" (expected provider/model)`
+
+          let loop = resolveLoop(loopId)
+          if (!loop && loopId) {
+            return missingLoopMessage(loopId)
+          }
+          if (loop?.running) {
+            return "Error: Ralph loop is already running. Use ralph_status to check progress."
+          }
+          if (loop && loop.tasks.length > 0 && !replace) {
+            return `Error: Loop ${loop.id} already has ${loop.tasks.length} tasks. Pass replace: true to plan again, or edit the plan with ralph_edit_task / ralph_remove_task / ralph_set_dependencies / ralph_add_tasks.`
+          }
+
+          const request = prompt || loop?.originalPrompt
+          if (!request) {
+            return "Error: No prompt to plan. Pass a prompt, or plan into a loop created with ralph_start."
+          }
+
+          if (!loop) {
+            const modelConfig = (model ? parseModelString(model) : config.model || await getSessionModel(ctx.sessionID)) || DEFAULT_MODEL
+            loop = {
+              id: `ralph_${Date.now()}`,
+              originalPrompt: request,
+              tasks: [],
+              currentTaskIndex: -1,
+              createdAt: Date.now(),
+              ...loopSettingsFromConfig(config),
+              model: modelConfig,
+              running: false,
+            }
+            loops.set(loop.id, loop)
+            journal(loop, { type: "loop_created", prompt: loop.originalPrompt, mode: "tasks" })
+            activeLoopId = loop.id
+          }
+          applyLoopArgs(loop, { plannerModel: plannerConfig || undefined, maxPlanDepth })
+
+          let plan: TaskWithDeps[]
+          try {
+            plan = await planTaskTree(loop, request, loop.plannerModel || loop.model, loop.maxPlanDepth ?? DEFAULT_MAX_PLAN_DEPTH)
+          } catch (e) {
+            checkpointLoop(loop)
+            return `Failed to break down prompt: ${e instanceof Error ? e.message : String(e)}`
+          }
+
+          journalTasks(loop, "task_removed", loop.tasks)
+          loop.tasks = tasksFromPlan(plan)
+          const inferredLines = formatInferredDependencies(inferPlanDependencies(loop.tasks), "  ")
+          journalTasks(loop, "task_added", loop.tasks)
+          checkpointLoop(loop)
+
+          const inferredSection = inferredLines.length > 0
+            ? `\n\nThe plan had no dependencies; inferred from its files and outputs (override with ralph_set_dependencies):\n${inferredLines.join("\n")}`
+            : ""
+
+          return `Planned ${loop.tasks.length} tasks into loop ${loop.id} - nothing has been run.${inferredSection}
+
+${formatPlan(loop)}
+
+## Next Steps
+- Review the plan above
+- Fix it with ralph_edit_task, ralph_remove_task, ralph_set_dependencies or ralph_add_tasks (with --after to insert)
+- Call \`ralph_run\` to execute it`
+        },
+      }),
 
-## Your Task
-"${prompt}"
+      ralph_edit_task: tool({
+        description: "Edit a task in a loop's plan before it runs. Only the fields given are changed; a failed, skipped or cancelled task goes back to pending.",
+        args: {
+          taskId: tool.schema.string().describe("ID of the task to edit"),
+          loopId: tool.schema.string().optional().describe("ID of the loop (see ralph_list). Default: the active loop"),
+          content: tool.schema.string().optional().describe("New task description"),
+          outputs: tool.schema.array(tool.schema.string()).optional().describe("What this task produces"),
+          files: tool.schema.array(tool.schema.string()).optional().describe("Files this task is expected to create or modify"),
+          acceptanceCriteria: tool.schema.array(tool.schema.string()).optional().describe("Conditions the worker must meet before reporting the task complete"),
+          model: tool.schema.string().optional().describe("Model for this task (format: provider/model); an empty string clears the override"),
+          tags: tool.schema.array(tool.schema.string()).optional().describe("Tags matched by routing rules"),
+          complexity: tool.schema.enum(TASK_COMPLEXITIES).optional().describe("low, medium or high - matched by routing rules"),
+          timeoutMs: tool.schema.number().int().min(1).optional().describe("Time limit per attempt of this task"),
+          maxAttempts: retryArgs.maxAttempts,
+          retryOn: retryArgs.retryOn,
+        },
+        async execute({ taskId, loopId, content, outputs, files, acceptanceCriteria, model, tags, complexity, timeoutMs, ...retry }, ctx) {
+          const loop = resolveLoop(loopId)
+          if (!loop) {
+            return missingLoopMessage(loopId)
+          }
+          const task = findEditableTask(loop, taskId)
+          if (typeof task === "string") {
+            return task
+          }
 
-## Model
-Worker sessions will use: ${modelInfo}
-${model ? "(explicitly specified)" : "(default: opencode/opencode-zen-big-pickle)"}
+          const modelConfig = model ? parseModelString(model) : undefined
+          if (model && !modelConfig) {
+            return `Error: invalid model "${model}" (expected provider/model) - task was not changed.`
+          }
 
-## Next Steps (you are the orchestrator)
-1. Use \`ralph_add_tasks\` to add ATOMIC tasks with dependencies
-2. Then call \`ralph_run\` to begin - independent tasks will run IN PARALLEL
-3. You'll stay in control and monitor progress
+          if (content !== undefined) task.content = content
+          if (outputs !== undefined) task.outputs = outputs
+          if (files !== undefined) task.files = files
+          if (acceptanceCriteria !== undefined) task.acceptanceCriteria = acceptanceCriteria
+          if (model !== undefined) task.model = modelConfig || undefined
+          if (tags !== undefined) task.tags = tags
+          if (complexity !== undefined) task.complexity = complexity
+          if (timeoutMs !== undefined) task.timeoutMs = timeoutMs
+          const retryOverrides = retryPolicyFromArgs(retry)
+          if (retryOverrides) task.retry = { ...task.retry, ...retryOverrides }
+          journalTasks(loop, "task_updated", [task])
+
+          if (task.status !== "pending") {
+            task.blockedBy = undefined
+            task.branch = undefined
+            setTaskStatus(loop, task, "pending")
+          } else {
+            checkpointLoop(loop)
+          }
 
-## Task Format
-When adding tasks, you can specify dependencies:
-- Tasks with no dependencies will run in parallel
-- Tasks with dependencies wait for those to complete
+          return `Updated task ${task.id}.
 
-Create the task list now using ralph_add_tasks.`
+${formatPlan(loop)}`
         },
       }),
 
-      ralph_add_tasks: tool({
-        description: "Add tasks directly to the Ralph loop. Use this after ralph_start to add tasks that will be executed. Tasks can include dependencies for automatic parallelization.",
+      ralph_remove_task: tool({
+        description: "Remove a task from a loop's plan before it runs.",
         args: {
-          tasks: tool.schema.array(tool.schema.object({
-            id: tool.schema.string().describe("Unique task ID (e.g., 'task_1', 'setup', 'tests')"),
-            content: tool.schema.string().describe("Task description - be specific and atomic"),
-            dependencies: tool.schema.array(tool.schema.string()).optional().describe("Array of task IDs this task depends on. Empty = independent = can run in parallel"),
-          })).describe("Array of tasks to add"),
+          taskId: tool.schema.string().describe("ID of the task to remove"),
+          loopId: tool.schema.string().optional().describe("ID of the loop (see ralph_list). Default: the active loop"),
+          force: tool.schema.boolean().optional().describe("Remove the task even if other tasks depend on it, dropping those dependencies. Default: false"),
         },
-        async execute({ tasks }, ctx) {
-          if (!activeLoop) {
-            return "Error: No active Ralph loop. Call ralph_start first."
+        async execute({ taskId, loopId, force }, ctx) {
+          const loop = resolveLoop(loopId)
+          if (!loop) {
+            return missingLoopMessage(loopId)
+          }
+          const task = findEditableTask(loop, taskId)
+          if (typeof task === "string") {
+            return task
           }
 
-          for (const task of tasks) {
-            activeLoop.tasks.push({
-              id: task.id,
-              content: task.content,
-              status: "pending",
-              dependencies: task.dependencies || [],
-            })
+          // A split task goes together with its subtasks
+          const subtree = (id: string): string[] => [id, ...subtasksOf(loop.tasks, id).flatMap(t => subtree(t.id))]
+          const removed = new Set(subtree(taskId))
+
+          const dependents = loop.tasks.filter(t => !removed.has(t.id) && (t.dependencies || []).some(d => removed.has(d)))
+          if (dependents.length > 0 && !force) {
+            return `Error: ${dependents.map(t => t.id).join(", ")} depend${dependents.length === 1 ? "s" : ""} on ${taskId}${removed.size > 1 ? " or its subtasks" : ""}. Change their dependencies with ralph_set_dependencies first, or pass force: true to drop them.`
           }
 
-          // Analyze parallelization potential
-          const layers = buildExecutionLayers(activeLoop.tasks)
-          const parallelTasks = layers.filter(l => l.length > 1).reduce((sum, l) => sum + l.length, 0)
+          journalTasks(loop, "task_removed", loop.tasks.filter(t => removed.has(t.id)))
+          loop.tasks = loop.tasks.filter(t => !removed.has(t.id))
+          for (const dependent of dependents) {
+            dependent.dependencies = (dependent.dependencies || []).filter(d => !removed.has(d))
+          }
+          journalTasks(loop, "task_updated", dependents)
+          updateParentStatus(loop, task)
+          checkpointLoop(loop)
 
-          return `Added ${tasks.length} tasks to Ralph loop. Total tasks: ${activeLoop.tasks.length}
+          const subtasks = removed.size > 1 ? ` and its ${removed.size - 1} subtasks` : ""
+          const dropped = dependents.length > 0 ? ` Dropped the dependency from ${dependents.map(t => t.id).join(", ")}.` : ""
+          return `Removed task ${taskId}${subtasks}.${dropped}
 
-## Execution Plan
-- Total layers: ${layers.length}
-- Tasks that can run in parallel: ${parallelTasks}
-- Sequential bottlenecks: ${layers.filter(l => l.length === 1).length}
+${formatPlan(loop)}`
+        },
+      }),
 
-## Tasks:
-${activeLoop.tasks.map((t, i) => {
-  const deps = t.dependencies && t.dependencies.length > 0 ? ` [depends: ${t.dependencies.join(", ")}]` : " [independent]"
-  return `  ${i + 1}. [${t.status}] ${t.content}${deps}`
-}).join("\n")}
+      ralph_set_dependencies: tool({
+        description: "Replace the dependencies of a task in a loop's plan. The resulting graph is validated (unknown IDs, self dependencies, dependencies on the task's own parent or subtasks, cycles) before anything changes.",
+        args: {
+          taskId: tool.schema.string().describe("ID of the task to change"),
+          dependencies: tool.schema.array(tool.schema.string()).describe("Task IDs this task depends on. Empty = independent"),
+          loopId: tool.schema.string().optional().describe("ID of the loop (see ralph_list). Default: the active loop"),
+        },
+        async execute({ taskId, dependencies, loopId }, ctx) {
+          const loop = resolveLoop(loopId)
+          if (!loop) {
+            return missingLoopMessage(loopId)
+          }
+          const task = findEditableTask(loop, taskId)
+          if (typeof task === "string") {
+            return task
+          }
 
-## Execution Layers (parallel groups):
-${layers.map((layer, i) => `  Layer ${i + 1}: ${layer.map(t => t.id).join(", ")} ${layer.length > 1 ? "(PARALLEL)" : ""}`).join("\n")}
+          const issues = validateLoopGraph(loop.tasks.map(t => (t === task ? { ...t, dependencies } : t)))
+          if (issues.length > 0) {
+            return `Error: Invalid task graph - dependencies were not changed.\n\n${formatGraphIssues(issues)}`
+          }
 
-Call \`ralph_run\` to start executing. Independent tasks will run in parallel!`
+          task.dependencies = dependencies
+          journalTasks(loop, "task_updated", [task])
+          checkpointLoop(loop)
+
+          return `Set dependencies of ${taskId}: ${dependencies.length > 0 ? dependencies.join(", ") : "none (independent)"}.
+
+${formatPlan(loop)}`
         },
       }),
 
       ralph_run: tool({
         description: "Run the Ralph loop - executes tasks with automatic parallelization based on dependencies. Independent tasks run in parallel, dependent tasks wait for their dependencies.",
         args: {
-          serial: tool.schema.boolean().optional().describe("Execute tasks serially instead of in parallel (reduces API call frequency). Default: false"),
+          loopId: tool.schema.string().optional().describe("ID of the loop to run (see ralph_list). Default: the active loop"),
+          background: tool.schema.boolean().optional().describe("Return immediately and keep running in the plugin process. Follow progress with ralph_status. Default: false"),
+          ...concurrencyArgs,
+          ...retryArgs,
+          ...timeoutArgs,
+          ...verificationArgs,
+          ...budgetArgs,
+          onFailure: onFailureArg,
+          isolation: isolationArg,
+          routes: routesArg,
         },
-        async execute({ serial }, ctx) {
-          if (!activeLoop) {
-            return "Error: No active Ralph loop. Call ralph_start first."
+        async execute({ loopId, background, serial, maxConcurrency, providerConcurrency, onFailure, isolation, routes, taskTimeoutMs, inactivityTimeoutMs, verifyCommands, verifyAfterLayer, fixAttempts, maxTokens, maxCost, ...retry }, ctx) {
+          const loop = resolveLoop(loopId)
+          if (!loop) {
+            return missingLoopMessage(loopId)
+          }
+
+          const routing = parseModelRoutes(routes || [])
+          if (routing.error) {
+            return `Error: ${routing.error}`
           }
 
-          if (activeLoop.running) {
+          // Loop settings came from the config when the loop was created, but templates are read per task
+          const { error: configError } = loadRalphConfig(directory)
+          if (configError) {
+            return `Error: ${configError}`
+          }
+
+          if (loop.running) {
             return "Error: Ralph loop is already running. Use ralph_status to check progress."
           }
 
+          // ralph_loop loops have no tasks: continue iterating (e.g. after ralph_resume). Budget and timeouts
+          // apply to iterations too; the task scheduling arguments have nothing to act on.
+          if (loop.iterate) {
+            applyLoopArgs(loop, { taskTimeoutMs, inactivityTimeoutMs, maxTokens, maxCost })
+            checkpointLoop(loop)
+            return startIterations(loop, background)
+          }
+
           // Try to use tasks already added via ralph_add_tasks
           // If none, try to use the lastKnownTodos from events
-          if (activeLoop.tasks.length === 0 && lastKnownTodos.length > 0) {
-            activeLoop.tasks = lastKnownTodos
+          let inferredDependencies: string[] = []
+          if (loop.tasks.length === 0 && lastKnownTodos.length > 0) {
+            loop.tasks = lastKnownTodos
               .filter((t: any) => t.status === "pending" || t.status === "in_progress")
               .map((t: any, i: number) => ({
                 id: t.id || `task_${i + 1}`,
@@ -752,19 +3649,15 @@ Call \`ralph_run\` to start executing. Independent tasks will run in parallel!`
               }))
             
             // Analyze dependencies for todo-based tasks
-            const taskWithDeps = activeLoop.tasks.map(t => ({
-              id: t.id,
-              content: t.content,
-              dependencies: [] as string[],
-              outputs: [] as string[],
-            }))
-            const depMap = analyzeDependencies(taskWithDeps)
-            for (const task of activeLoop.tasks) {
-              task.dependencies = depMap.get(task.id) || []
+            const depMap = analyzeDependencies(loop.tasks)
+            for (const task of loop.tasks) {
+              task.dependencies = (depMap.get(task.id) || []).map(d => d.dependsOn)
             }
+            inferredDependencies = formatInferredDependencies(depMap, "  ")
+            journalTasks(loop, "task_added", loop.tasks)
           }
 
-          if (activeLoop.tasks.length === 0) {
+          if (loop.tasks.length === 0) {
             return `Error: No tasks found in Ralph loop. 
 
 You need to add tasks first using one of these methods:
@@ -782,200 +3675,520 @@ Call ralph_add_tasks with tasks: [
 Tasks 2 and 3 will run in PARALLEL since they have no dependencies on each other!`
           }
 
-          const pendingTasks = activeLoop.tasks.filter(t => t.status === "pending")
+          // Skipped and cancelled tasks get another chance; skipped ones are blocked again if their dependencies
+          // still failed. They are only reset once every check below has passed.
+          const retried = loop.tasks.filter(t => t.status === "blocked" || t.status === "cancelled")
+          const pendingTasks = loop.tasks.filter(t =>
+            (t.status === "pending" || retried.includes(t)) && subtasksOf(loop.tasks, t.id).length === 0)
           if (pendingTasks.length === 0) {
             return "No pending tasks to run. All tasks may already be completed."
           }
 
+          const issues = validateLoopGraph(loop.tasks)
+          if (issues.length > 0) {
+            return `Error: Invalid task graph - nothing was run.\n\n${formatGraphIssues(issues)}`
+          }
+
+          if ((isolation || loop.isolation) === "worktree") {
+            const unsupported = await checkWorktreeSupport(directory)
+            if (unsupported) return `Error: ${unsupported}`
+          }
+
           const results: string[] = []
-          const executeSerial = serial === true
-          
-          // Build execution layers
-          const layers = buildExecutionLayers(activeLoop.tasks.filter(t => t.status === "pending"))
-          
+          applyLoopArgs(loop, {
+            serial, maxConcurrency, providerConcurrency, onFailure, isolation, taskTimeoutMs, inactivityTimeoutMs,
+            verifyCommands, verifyAfterLayer, fixAttempts, maxTokens, maxCost,
+            routes: routes ? routing.routes : undefined,
+            retry: retryPolicyFromArgs(retry),
+          })
+
+          const overBudget = checkBudget(loop)
+          if (overBudget) {
+            checkpointLoop(loop)
+            return `Error: ${overBudget}. Raise --maxTokens / --maxCost to continue.`
+          }
+
+          loop.stopRequested = undefined
+          for (const task of retried) {
+            task.blockedBy = undefined
+            setTaskStatus(loop, task, "pending")
+          }
+
           results.push(`Starting Ralph loop with ${pendingTasks.length} pending tasks...`)
-          results.push(`Execution mode: ${executeSerial ? "serial (one task at a time)" : `parallel (${layers.length} layers)`}\n`)
+          results.push(`Execution mode: ${formatConcurrency(loop)}`)
+          results.push(...formatModelRouting(loop))
+          if (inferredDependencies.length > 0) results.push(`Inferred dependencies:`, ...inferredDependencies)
+          if (loop.isolation === "worktree") results.push(`Isolation: git worktree per task`)
+          results.push(``)
 
-          const loop = activeLoop
           loop.running = true
+          runLogs.set(loop.id, results)
+          checkpointLoop(loop)
 
-          let taskCounter = 0
-          
-          if (executeSerial) {
-            // Serial execution: one task at a time
-            for (const task of pendingTasks) {
-              taskCounter++
-              results.push(`\n=== Task ${taskCounter}/${pendingTasks.length} (serial) ===`)
-              
-              await executeTask(task, loop, taskCounter, loop.tasks.length)
-              
-              results.push(`\n--- Task ${taskCounter}/${pendingTasks.length} ---`)
-              results.push(`Task: ${task.content}`)
-              
-              if (task.status === "completed") {
-                results.push(`Session: ${task.sessionId}`)
-                results.push(`Status: COMPLETED`)
-              } else {
-                results.push(`Session: ${task.sessionId || "N/A"}`)
-                results.push(`Status: FAILED - ${task.error || "Unknown error"}`)
-              }
-            }
-          } else {
-            // Parallel execution: layer by layer
-            for (let layerIdx = 0; layerIdx < layers.length; layerIdx++) {
-              const layer = layers[layerIdx]
-              const parallelCount = layer.length
-              
-              results.push(`\n=== Layer ${layerIdx + 1}/${layers.length} (${parallelCount} task${parallelCount > 1 ? "s in parallel" : ""}) ===`)
-              
-              if (parallelCount > 1) {
-                results.push(`Executing ${parallelCount} tasks in PARALLEL...`)
-              }
+          return startRun(loop, background, async () => {
+            await scheduleTasks(loop, pendingTasks, results)
 
-              // Execute layer tasks in parallel
-              await executeTasksParallel(layer, loop, taskCounter, loop.tasks.length)
-
-              // Report results for this layer
-              for (const task of layer) {
-                taskCounter++
-                results.push(`\n--- Task ${taskCounter}/${loop.tasks.length} ---`)
-                results.push(`Task: ${task.content}`)
-                
-                if (task.status === "completed") {
-                  results.push(`Session: ${task.sessionId}`)
-                  results.push(`Status: COMPLETED`)
-                } else {
-                  results.push(`Session: ${task.sessionId || "N/A"}`)
-                  results.push(`Status: FAILED - ${task.error || "Unknown error"}`)
-                }
-              }
+            results.push(`\n--- Ralph Loop Complete ---`)
+            results.push(...formatRunSummary(loop))
+            results.push(`Execution mode: ${formatConcurrency(loop).toLowerCase()}`)
+            results.push(`\n<ralph_done>Processed ${loop.tasks.length} tasks</ralph_done>`)
+
+            return results.join("\n")
+          })
+        },
+      }),
+
+      ralph_loop: tool({
+        description: "Classic Ralph: run the same prompt in a fresh session over and over until a completion check passes (a marker in the final message and/or a shell command exiting 0) or the iteration cap is reached. Each iteration's session is recorded on the loop.",
+        args: {
+          prompt: tool.schema.string().optional().describe("The prompt to run every iteration. Required unless loopId is given"),
+          loopId: tool.schema.string().optional().describe("Continue this ralph_loop loop (see ralph_list) instead of starting a new one"),
+          model: tool.schema.string().optional().describe("Model for the iteration sessions (format: provider/model). Default: the orchestrator's current model"),
+          maxIterations: tool.schema.number().int().min(1).optional().describe(`Stop after this many iterations in total. Default: ${DEFAULT_MAX_ITERATIONS}`),
+          completionMarker: tool.schema.string().min(1).optional().describe(`Done when an iteration's final message ends with this text on a line of its own. Default: ${DEFAULT_COMPLETION_MARKER} when no completionCommand is given`),
+          completionCommand: tool.schema.string().min(1).optional().describe("Done when this shell command exits 0 in the project after an iteration (e.g. 'npm test')"),
+          cooldownMs: tool.schema.number().int().min(0).optional().describe("Pause between iterations. Default: 0"),
+          background: tool.schema.boolean().optional().describe("Return immediately and keep iterating in the plugin process. Follow progress with ralph_status. Default: false"),
+          ...timeoutArgs,
+          ...budgetArgs,
+        },
+        async execute({ prompt, loopId, model, maxIterations, completionMarker, completionCommand, cooldownMs, background, taskTimeoutMs, inactivityTimeoutMs, maxTokens, maxCost }, ctx) {
+          const { config, error: configError } = loadRalphConfig(directory)
+          if (configError) return `Error: ${configError}`
+
+          let loop: RalphLoop
+          if (loopId) {
+            const existing = resolveLoop(loopId)
+            if (!existing) return missingLoopMessage(loopId)
+            if (!existing.iterate) return `Error: Loop ${loopId} runs a task list, not a single prompt. Use ralph_run for it.`
+            if (existing.running) return `Error: Ralph loop ${loopId} is already running. Use ralph_status to check progress.`
+            loop = existing
+            if (maxIterations !== undefined) loop.iterate = { ...loop.iterate!, maxIterations }
+            if (completionMarker !== undefined) loop.iterate = { ...loop.iterate!, completionMarker }
+            if (completionCommand !== undefined) loop.iterate = { ...loop.iterate!, completionCommand }
+            if (cooldownMs !== undefined) loop.iterate = { ...loop.iterate!, cooldownMs }
+            if (model) loop.model = parseModelString(model) || loop.model
+          } else {
+            if (!prompt) return "Error: ralph_loop needs a prompt (or a loopId to continue)."
+            const modelConfig = model
+              ? parseModelString(model) || DEFAULT_MODEL
+              : config.model || await getSessionModel(ctx.sessionID) || DEFAULT_MODEL
+            loop = {
+              id: `ralph_loop_${Date.now()}`,
+              originalPrompt: prompt,
+              tasks: [],
+              currentTaskIndex: -1,
+              createdAt: Date.now(),
+              ...loopSettingsFromConfig(config),
+              model: modelConfig,
+              running: false,
+              iterate: {
+                maxIterations: maxIterations ?? DEFAULT_MAX_ITERATIONS,
+                completionMarker: completionMarker ?? (completionCommand ? undefined : DEFAULT_COMPLETION_MARKER),
+                completionCommand,
+                cooldownMs,
+              },
+              iterations: [],
             }
+            loops.set(loop.id, loop)
+            journal(loop, { type: "loop_created", prompt: loop.originalPrompt, mode: "iterate" })
+            activeLoopId = loop.id
           }
+          applyLoopArgs(loop, { taskTimeoutMs, inactivityTimeoutMs, maxTokens, maxCost })
+          checkpointLoop(loop)
 
-          loop.running = false
+          return startIterations(loop, background)
+        },
+      }),
 
-          const completedCount = loop.tasks.filter(t => t.status === "completed").length
-          const failedCount = loop.tasks.filter(t => t.status === "failed").length
-          
-          results.push(`\n--- Ralph Loop Complete ---`)
-          results.push(`Completed: ${completedCount}/${loop.tasks.length}`)
-          if (failedCount > 0) results.push(`Failed: ${failedCount}`)
-          results.push(`Execution mode: ${executeSerial ? "serial" : `parallel (${layers.length} layers)`}`)
-          results.push(`\n<ralph_done>Processed ${loop.tasks.length} tasks</ralph_done>`)
+      ralph_pause: tool({
+        description: "Pause a running Ralph loop - tasks already in progress finish, no new tasks are started. Continue later with ralph_run.",
+        args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop to pause (see ralph_list). Default: the active loop"),
+        },
+        async execute({ loopId }, ctx) {
+          const loop = resolveLoop(loopId)
+          if (!loop) {
+            return missingLoopMessage(loopId)
+          }
+          if (!loop.running) {
+            return `Ralph loop ${loop.id} is not running. Nothing to pause.`
+          }
+
+          loop.stopRequested = "pause"
+          checkpointLoop(loop)
+
+          const inFlight = loop.tasks.filter(t => t.status === "in_progress")
+          const pending = loop.tasks.filter(t => t.status === "pending").length
+          return `Pausing Ralph loop ${loop.id}.
+
+${inFlight.length} task(s) in progress will finish; ${pending} pending task(s) will not be started.
+${inFlight.map(t => `  - ${t.id}: ${t.content}${t.sessionId ? ` (session: ${t.sessionId})` : ""}`).join("\n")}
+
+Use ralph_status to see when it has stopped, then ralph_run${loop.id !== activeLoopId ? ` --loopId ${loop.id}` : ""} to continue.`
+        },
+      }),
+
+      ralph_cancel: tool({
+        description: "Cancel a running Ralph loop - aborts every worker session in progress, marks those tasks (and tasks still waiting for a worker slot) cancelled and starts nothing new. Cancelled tasks run again on the next ralph_run.",
+        args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop to cancel (see ralph_list). Default: the active loop"),
+        },
+        async execute({ loopId }, ctx) {
+          const loop = resolveLoop(loopId)
+          if (!loop) {
+            return missingLoopMessage(loopId)
+          }
+          if (!loop.running) {
+            return `Ralph loop ${loop.id} is not running. Nothing to cancel.`
+          }
+
+          loop.stopRequested = "cancel"
+
+          const results: string[] = []
+          results.push(`Cancelling Ralph loop ${loop.id}...`)
+
+          const sessions = [...activeSessions].filter(([, info]) => info.loopId === loop.id)
+          for (const [sessionId, info] of sessions) {
+            const task = loop.tasks.find(t => t.id === info.taskId)
+            try {
+              await client.session.abort({
+                path: { id: sessionId },
+                ...(info.directory ? { query: { directory: info.directory } } : {}),
+              })
+              results.push(`  - Aborted ${sessionId} (${info.taskId})`)
+            } catch (e) {
+              results.push(`  - Failed to abort ${sessionId} (${info.taskId}): ${e instanceof Error ? e.message : String(e)}`)
+            }
+            if (task && task.status === "in_progress") {
+              setTaskStatus(loop, task, "cancelled", "Cancelled by ralph_cancel")
+            }
+          }
+          checkpointLoop(loop)
 
-          activeLoop = null
+          if (sessions.length === 0) {
+            results.push(`  No worker sessions were in progress.`)
+          }
+          results.push(``)
+          results.push(`Progress: ${formatProgress(loop)}`)
+          results.push(`Call ralph_run${loop.id !== activeLoopId ? ` --loopId ${loop.id}` : ""} to continue; cancelled tasks will run again.`)
           return results.join("\n")
         },
       }),
 
       ralph_status: tool({
-        description: "Check the status of the current Ralph loop or saved checkpoint",
-        args: {},
-        async execute(args, ctx) {
+        description: "Check the status of the current Ralph loop (or the loop with the given ID) or saved checkpoint",
+        args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop to show (see ralph_list). Default: the active loop"),
+        },
+        async execute({ loopId }, ctx) {
           // Helper to format a RalphLoop for display
           const formatLoop = (loop: RalphLoop, label: string) => {
-            const pending = loop.tasks.filter(t => t.status === "pending").length
-            const inProgress = loop.tasks.filter(t => t.status === "in_progress").length
-            const completed = loop.tasks.filter(t => t.status === "completed").length
-            const failed = loop.tasks.filter(t => t.status === "failed").length
-
             const modelInfo = loop.model
               ? `${loop.model.providerID}/${loop.model.modelID}`
               : `${DEFAULT_MODEL.providerID}/${DEFAULT_MODEL.modelID}`
+            const timeouts = `${loop.taskTimeoutMs ? `${formatDuration(loop.taskTimeoutMs)} per ${loop.iterate ? "iteration" : "task"}` : loop.iterate ? "no iteration limit" : "no task limit"}, ${loop.inactivityTimeoutMs ? `abort after ${formatDuration(loop.inactivityTimeoutMs)} without activity` : "no inactivity limit"}`
+
+            if (loop.iterate) {
+              const iterations = loop.iterations || []
+              const last = iterations[iterations.length - 1]
+              const lastMessage = last?.tail ? `\n\nLast message (iteration ${last.iteration}):\n${last.tail.trim().split("\n").slice(-10).map(l => `  ${l}`).join("\n")}` : ""
+              return `${label}
+Loop ID: ${loop.id}
+Mode: same prompt until done (ralph_loop)
+Prompt: "${loop.originalPrompt}"
+Model: ${modelInfo}
+Running: ${loop.running ? "YES" : "NO"}
+Completion check: ${formatCompletionCheck(loop.iterate)}
+Cooldown: ${loop.iterate.cooldownMs ? formatDuration(loop.iterate.cooldownMs) : "none"}
+Timeouts: ${timeouts}
+Usage: ${formatUsage(loop.usage)}
+Budget: ${formatBudget(loop.budget)}
+Progress: ${formatProgress(loop)}
+Saved: ${new Date(loop.createdAt).toLocaleString()}
+
+Iterations:
+${iterations.length > 0 ? iterations.map(i => formatIteration(i, "  ")).join("\n") : "  (none yet)"}${lastMessage}`
+            }
 
-            const pendingTasks = loop.tasks.filter(t => t.status === "pending")
+            // Remaining layers only count dependencies that have yet to run
+            const pendingTasks = executableTasks(loop, loop.tasks.filter(t => t.status === "pending"))
+              .map(t => ({ ...t, dependencies: (t.dependencies || []).filter(d => loop.tasks.find(dep => dep.id === d)?.status === "pending") }))
             const layers = pendingTasks.length > 0 ? buildExecutionLayers(pendingTasks) : []
+            const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...loop.retryPolicy }
 
             return `${label}
 Loop ID: ${loop.id}
 Prompt: "${loop.originalPrompt}"
 Model: ${modelInfo}
-Running: ${loop.running ? "YES" : "NO"}
-Progress: ${completed}/${loop.tasks.length} (${pending} pending, ${inProgress} in progress, ${failed} failed)
+${formatModelRouting(loop).map(line => `${line}\n`).join("")}Running: ${loop.running ? "YES" : "NO"}
+Concurrency: ${formatConcurrency(loop)}
+Isolation: ${loop.isolation === "worktree" ? "git worktree per task" : "shared working tree"}
+On failure: ${loop.onFailure || "continue"}
+Retry: up to ${retryPolicy.maxAttempts} attempts on ${retryPolicy.retryOn.join(", ") || "nothing"}
+Timeouts: ${timeouts}
+Verification: ${formatVerificationSettings(loop)}
+Usage: ${formatUsage(loop.usage)}${loop.planningUsage ? ` - planning ${formatTokens(countTokens(loop.planningUsage))} tokens, ${formatCost(loop.planningUsage.cost)}` : ""}
+Budget: ${formatBudget(loop.budget)}
+Progress: ${formatProgress(loop)}
 Saved: ${new Date(loop.createdAt).toLocaleString()}
 
 Tasks:
-${loop.tasks.length > 0 ? loop.tasks.map((t, i) => {
+${loop.tasks.length > 0 ? taskTree(loop.tasks).map(({ task: t, depth }, i) => {
   const deps = t.dependencies && t.dependencies.length > 0 ? ` [depends: ${t.dependencies.join(", ")}]` : ""
-  return `  ${i + 1}. [${t.status}] ${t.content}${deps}${t.sessionId ? ` (session: ${t.sessionId})` : ""}${t.error ? ` - Error: ${t.error}` : ""}`
+  const blocked = t.status === "blocked" ? ` - Blocked by: ${t.blockedBy || "unknown"}` : ""
+  const branch = t.branch ? ` - Unmerged branch: ${t.branch}` : ""
+  const model = t.modelUsed ? ` [model: ${formatModel(t.modelUsed)}]` : ""
+  const usage = t.usage ? ` [${formatTokens(countTokens(t.usage))} tokens, ${formatCost(t.usage.cost)}]` : ""
+  const fixUps = t.attempts?.[t.attempts.length - 1]?.fixUpSessions || []
+  const session = t.sessionId ? ` (session: ${t.sessionId}${fixUps.length > 0 ? `, fix-ups: ${fixUps.join(", ")}` : ""})` : ""
+  const line = `  ${"  ".repeat(depth)}${i + 1}. [${t.status}] ${t.content}${deps}${model}${usage}${session}${t.error ? ` - Error: ${t.error}` : ""}${blocked}${branch}`
+  const attempts = t.attempts && t.attempts.length > 1 ? formatAttempts(t, "       ") : []
+  return [line, ...attempts].join("\n")
 }).join("\n") : "  (no tasks added yet)"}
 
 ${layers.length > 0 ? `\nRemaining Execution Layers:\n${layers.map((layer, i) => `  Layer ${i + 1}: ${layer.map(t => t.id).join(", ")} ${layer.length > 1 ? "(PARALLEL)" : ""}`).join("\n")}` : ""}`
           }
 
-          // Show active loop if one exists
-          if (activeLoop) {
+          const loop = resolveLoop(loopId)
+          if (loop) {
+            const label = loop.id === activeLoopId ? "=== Active Ralph Loop ===" : "=== Ralph Loop ==="
+            const otherLoops = loops.size - 1
+            const footer = (otherLoops > 0 ? `\n\n(${otherLoops} other loop${otherLoops > 1 ? "s" : ""} in memory - see ralph_list)` : "") +
+              formatStateFileWarnings()
+
             // Show active sessions if any
-            if (activeSessions.size > 0) {
-              results.push(`=== Active Ralph Loop ===`)
-              results.push(`Loop ID: ${activeLoop.id}`)
-              results.push(`Prompt: "${activeLoop.originalPrompt}"`)
+            const sessions = [...activeSessions].filter(([, info]) => info.loopId === loop.id)
+            if (sessions.length > 0) {
+              const results: string[] = []
+              results.push(label)
+              results.push(`Loop ID: ${loop.id}`)
+              results.push(`Prompt: "${loop.originalPrompt}"`)
               results.push(`Running: YES`)
-              results.push(`Progress: ${completed}/${activeLoop.tasks.length} (${pending} pending, ${inProgress} in progress, ${failed} failed)`)
+              results.push(`Progress: ${formatProgress(loop)}`)
               results.push(``)
-              results.push(`Active Sessions (${activeSessions.size}):`)
-              for (const [sessionId, info] of activeSessions) {
-                const task = activeLoop.tasks.find(t => t.id === info.taskId)
+              results.push(`Active Sessions (${sessions.length}):`)
+              for (const [sessionId, info] of sessions) {
+                const task = loop.tasks.find(t => t.id === info.taskId)
                 results.push(`  - ${sessionId}`)
                 results.push(`    Task: ${task?.content || info.taskId}`)
                 results.push(`    Started: ${new Date(info.createdAt).toLocaleTimeString()}`)
               }
-              return results.join("\n")
+              return results.join("\n") + formatRunLog(loop) + footer
             }
-            return formatLoop(activeLoop, "=== Active Ralph Loop ===")
+            return formatLoop(loop, label) + formatRunLog(loop) + footer
           }
 
           // Check for saved checkpoint
-          if (fs.existsSync(RALPH_STATE_FILE)) {
-            try {
-              const data = fs.readFileSync(RALPH_STATE_FILE, "utf-8")
-              const stateData = JSON.parse(data)
+          try {
+            const stateData = readStateFile()
+            const savedId = loopId || stateData?.activeLoopId
+            const savedLoop = savedId ? stateData?.loops[savedId] : undefined
 
-              if (stateData.activeLoop) {
-                const savedAt = stateData.savedAt ? new Date(stateData.savedAt).toLocaleString() : "unknown"
-                const todosDone = stateData.todosDone || 0
+            if (stateData && savedLoop) {
+              const savedAt = stateData.savedAt ? new Date(stateData.savedAt).toLocaleString() : "unknown"
 
-                return `=== Saved Ralph Checkpoint ===
+              return `=== Saved Ralph Checkpoint ===
 Saved: ${savedAt}
-Todos completed before save: ${todosDone}
+Todos completed before save: ${stateData.todosDone}
 
-${formatLoop(stateData.activeLoop, "")}
+${formatLoop(savedLoop, "")}
 
 ---
-Use \`ralph_resume\` to restore this checkpoint and continue.`
-              }
-            } catch (e) {
-              // Fall through to no loop message
+Use \`ralph_resume${loopId ? ` --loopId ${loopId}` : ""}\` to restore this checkpoint and continue.`
             }
+          } catch (e) {
+            // Fall through to no loop message
           }
 
+          if (loopId) {
+            return `No Ralph loop "${loopId}" in memory or in the saved checkpoint. Use ralph_list to see loops.`
+          }
           return "No active Ralph loop and no saved checkpoint found."
         },
       }),
 
+      ralph_list: tool({
+        description: "List all Ralph loops - those in memory and those in the saved checkpoint - with their progress",
+        args: {},
+        async execute(args, ctx) {
+          let saved: RalphState | null = null
+          try {
+            saved = readStateFile()
+          } catch (e) {
+            // Unreadable checkpoint: list in-memory loops only
+          }
+
+          const formatEntry = (loop: RalphLoop, state: string) =>
+            `${loop.id === activeLoopId ? "* " : "  "}${loop.id} [${state}] ${formatProgress(loop)}${loop.usage ? `, ${formatCost(loop.usage.cost)}` : ""}\n    Prompt: "${loop.originalPrompt}"`
+
+          const results: string[] = []
+          results.push(`=== Ralph Loops ===`)
+
+          if (loops.size > 0) {
+            results.push(`In memory (${loops.size}):`)
+            for (const loop of loops.values()) {
+              results.push(formatEntry(loop, loop.running ? "running" : "idle"))
+            }
+          } else {
+            results.push(`In memory: none`)
+          }
+
+          const savedOnly = Object.values(saved?.loops || {}).filter(l => !loops.has(l.id))
+          if (savedOnly.length > 0) {
+            results.push(``)
+            results.push(`Saved only (${savedOnly.length}) - load with ralph_resume --loopId <id>:`)
+            for (const loop of savedOnly) {
+              results.push(formatEntry(loop, "saved"))
+            }
+          }
+
+          results.push(``)
+          results.push(`* = active loop (used when no loopId is given)`)
+          return results.join("\n")
+        },
+      }),
+
+      ralph_report: tool({
+        description: "Export a Ralph loop to a report file: Markdown (for PRs), JSON (for scripts) or JUnit XML (one test case per task, for CI). Covers tasks, statuses, dependencies, sessions, errors, durations and worker summaries.",
+        args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop to report on (see ralph_list); saved loops work too. Default: the active loop"),
+          format: tool.schema.enum(REPORT_FORMATS).optional().describe("markdown, json or junit. Default: markdown"),
+          output: tool.schema.string().optional().describe("File to write, relative to the project. Default: <loopId>.<md|json|xml> in the reports directory"),
+        },
+        async execute({ loopId, format, output }, ctx) {
+          let loop = resolveLoop(loopId)
+          if (!loop && loopId) {
+            try {
+              loop = readStateFile()?.loops[loopId] || null
+            } catch (e) {
+              // Unreadable checkpoint: only loops in memory can be reported
+            }
+          }
+          if (!loop) return missingLoopMessage(loopId)
+
+          const reportFormat = format || "markdown"
+          const file = output ? path.resolve(directory, output) : defaultReportPath(loop, reportFormat)
+          const content = formatReport(loop, reportFormat)
+          try {
+            writeReport(file, content)
+          } catch (e) {
+            return `Error: Failed to write report to ${file}: ${e instanceof Error ? e.message : String(e)}`
+          }
+
+          const written = `Wrote ${reportFormat} report for ${loop.id} to ${file}`
+          return reportFormat === "markdown" ? `${written}\n\n${content}` : written
+        },
+      }),
+
+      ralph_timeline: tool({
+        description: "Show a loop's event journal as a timeline: loop created, tasks added, started, sessions created, completed, failed, retried, cancelled - with timestamps. For post-mortems.",
+        args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop (see ralph_list); loops no longer in memory work too. Default: the active loop"),
+          taskId: tool.schema.string().optional().describe("Only show events of this task (and its subtasks)"),
+        },
+        async execute({ loopId, taskId }, ctx) {
+          const id = loopId || activeLoopId
+          if (!id) return "No active Ralph loop. Pass a loopId (see ralph_list)."
+          let events: JournalEvent[] | null
+          try {
+            events = readJournal(id)
+          } catch (e) {
+            return `Error: Failed to read the journal of ${id}: ${e instanceof Error ? e.message : String(e)}`
+          }
+          if (!events || events.length === 0) return `No journal found for loop ${id} (${journalFile(id)}).`
+
+          const lines = formatTimeline(events, e => !taskId || e.taskId === taskId || !!e.taskId?.startsWith(`${taskId}.`))
+          if (lines.length === 0) return `No events for task ${taskId} in the journal of ${id}.`
+          return `=== Timeline: ${id}${taskId ? ` (${taskId})` : ""} ===
+${lines.join("\n")}
+
+Rebuild the loop as of any event with \`ralph_replay --loopId ${id} --upTo <event #>\`.`
+        },
+      }),
+
+      ralph_replay: tool({
+        description: "Rebuild a loop's state from its event journal - as it is now, or as it was after a given event (see ralph_timeline). For post-mortems.",
+        args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop (see ralph_list); loops no longer in memory work too. Default: the active loop"),
+          upTo: tool.schema.number().int().min(1).optional().describe("Replay events 1 to upTo only (event numbers as shown by ralph_timeline). Default: all"),
+        },
+        async execute({ loopId, upTo }, ctx) {
+          const id = loopId || activeLoopId
+          if (!id) return "No active Ralph loop. Pass a loopId (see ralph_list)."
+          let events: JournalEvent[] | null
+          try {
+            events = readJournal(id)
+          } catch (e) {
+            return `Error: Failed to read the journal of ${id}: ${e instanceof Error ? e.message : String(e)}`
+          }
+          if (!events || events.length === 0) return `No journal found for loop ${id} (${journalFile(id)}).`
+
+          const applied = events.slice(0, upTo ?? events.length)
+          const loop = replayJournal(id, applied)
+          const last = applied[applied.length - 1]
+          // The journal does not record the iteration cap, so iterate loops count iterations only
+          const progress = loop.iterations
+            ? `${loop.iterations.length} iterations${loop.iterations.some(i => i.status === "done") ? " (done)" : ""}`
+            : formatProgress(loop)
+          const header = `=== Replayed Ralph Loop (from journal) ===
+Loop ID: ${id}
+Prompt: "${loop.originalPrompt}"
+As of: event ${applied.length} of ${events.length} (${new Date(last.at).toLocaleString()}) - ${describeEvent(last)}
+Running: ${loop.running ? "YES" : "NO"}
+Progress: ${progress}`
+
+          if (loop.iterations) {
+            return `${header}
+
+Iterations:
+${loop.iterations.length > 0 ? loop.iterations.map(i => formatIteration(i, "  ")).join("\n") : "  (none yet)"}`
+          }
+
+          return `${header}
+
+Tasks:
+${loop.tasks.length > 0 ? taskTree(loop.tasks).map(({ task: t, depth }, i) => {
+  const deps = t.dependencies && t.dependencies.length > 0 ? ` [depends: ${t.dependencies.join(", ")}]` : ""
+  const session = t.sessionId ? ` (session: ${t.sessionId})` : ""
+  const blocked = t.status === "blocked" ? ` - Blocked by: ${t.blockedBy || "unknown"}` : ""
+  const line = `  ${"  ".repeat(depth)}${i + 1}. [${t.status}] ${t.content}${deps}${session}${t.error ? ` - Error: ${t.error}` : ""}${blocked}`
+  const attempts = t.attempts && t.attempts.length > 1 ? formatAttempts(t, "       ") : []
+  return [line, ...attempts].join("\n")
+}).join("\n") : "  (no tasks added yet)"}`
+        },
+      }),
+
       ralph_quit: tool({
-        description: "Save the current Ralph loop state and quit. Optionally execute pre/post instructions. Saves task progress and todo completion count. Shows live update of completed work before saving.",
+        description: "Save the current Ralph loop state and quit. Optionally execute pre/post instructions. Saves task progress and todo completion count. Shows live update of completed work before saving. Running sessions keep going - use ralph_pause or ralph_cancel to stop them.",
         args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop to save and quit (see ralph_list). Default: the active loop"),
           pre: tool.schema.string().optional().describe("Pre-quit instruction to execute before saving state"),
           post: tool.schema.string().optional().describe("Post-quit instruction to execute after saving state"),
         },
-        async execute({ pre, post }, ctx) {
+        async execute({ loopId, pre, post }, ctx) {
           const results: string[] = []
+          const loop = resolveLoop(loopId)
+          if (loopId && !loop) {
+            return missingLoopMessage(loopId)
+          }
 
           if (pre) {
             results.push(`Pre-quit instruction: ${pre}`)
           }
 
           // Generate live update of current progress
-          if (activeLoop) {
-            const completed = activeLoop.tasks.filter(t => t.status === "completed")
-            const inProgress = activeLoop.tasks.filter(t => t.status === "in_progress")
-            const pending = activeLoop.tasks.filter(t => t.status === "pending")
-            const failed = activeLoop.tasks.filter(t => t.status === "failed")
+          if (loop) {
+            const completed = loop.tasks.filter(t => t.status === "completed")
+            const inProgress = loop.tasks.filter(t => t.status === "in_progress")
+            const pending = loop.tasks.filter(t => t.status === "pending")
+            const failed = loop.tasks.filter(t => t.status === "failed" || t.status === "timed_out")
+            const unverified = loop.tasks.filter(t => t.status === "unverified")
+            const blocked = formatBlockedTasks(loop, "  ")
 
             results.push(``)
             results.push(`=== Live Progress Update ===`)
-            results.push(`Progress: ${completed.length}/${activeLoop.tasks.length} tasks completed`)
+            results.push(`Progress: ${completed.length}/${loop.tasks.length} tasks completed`)
             results.push(``)
 
             if (completed.length > 0) {
@@ -1015,29 +4228,46 @@ Use \`ralph_resume\` to restore this checkpoint and continue.`
               })
             }
 
+            if (unverified.length > 0) {
+              results.push(``)
+              results.push(`Unverified (${unverified.length}):`)
+              unverified.forEach((t, i) => {
+                results.push(`  ${i + 1}. ${t.content}`)
+                if (t.sessionId) results.push(`     Session: ${t.sessionId}`)
+              })
+            }
+
+            if (blocked.length > 0) {
+              results.push(``)
+              results.push(`Blocked (${blocked.length}):`)
+              results.push(...blocked)
+            }
+
             // Report active sessions that will continue running
-            if (activeSessions.size > 0) {
+            const sessions = [...activeSessions].filter(([, info]) => info.loopId === loop.id)
+            if (sessions.length > 0) {
               results.push(``)
-              results.push(`⚠️  Active Sessions (${activeSessions.size} still running):`)
-              for (const [sessionId, info] of activeSessions) {
-                const task = activeLoop.tasks.find(t => t.id === info.taskId)
+              results.push(`⚠️  Active Sessions (${sessions.length} still running):`)
+              for (const [sessionId, info] of sessions) {
+                const task = loop.tasks.find(t => t.id === info.taskId)
                 results.push(`  - Session: ${sessionId}`)
                 results.push(`    Task: ${task?.content || info.taskId}`)
                 results.push(`    Started: ${new Date(info.createdAt).toLocaleTimeString()}`)
               }
               results.push(``)
               results.push(`Note: Running sessions will continue in background. State saved includes all progress.`)
+              results.push(`Use ralph_pause to let them finish without starting new tasks, or ralph_cancel to abort them.`)
             }
           }
 
           const saveResult = saveRalphState()
           
           if (!saveResult.success) {
-            return `Failed to save state: ${saveResult.message}`
+            return `Error: ${saveResult.message}`
           }
 
-          const loopInfo = activeLoop 
-            ? `Loop: ${activeLoop.id}\nPrompt: "${activeLoop.originalPrompt}"\nTasks: ${activeLoop.tasks.length}`
+          const loopInfo = loop 
+            ? `Loop: ${loop.id}\nPrompt: "${loop.originalPrompt}"\nTasks: ${loop.tasks.length}`
             : "No active loop"
 
           results.push(``)
@@ -1045,51 +4275,68 @@ Use \`ralph_resume\` to restore this checkpoint and continue.`
           results.push(`Ralph loop state saved.`)
           results.push(`Todos completed: ${saveResult.todosDone}`)
           results.push(loopInfo)
-          results.push(`State saved to: ${RALPH_STATE_FILE}`)
+          results.push(`State saved to: ${ralphStateFile}`)
+          if (saveResult.movedAside) {
+            results.push(`The previous state file could not be parsed and was moved to ${saveResult.movedAside}`)
+          }
           results.push(``)
-          results.push(`Use \`ralph_resume\` to restore and continue from this point.`)
+          results.push(`Use \`ralph_resume${loop && loop.id !== activeLoopId ? ` --loopId ${loop.id}` : ""}\` to restore and continue from this point.`)
 
           if (post) {
             results.push(`Post-quit instruction: ${post}`)
           }
 
-          activeLoop = null
+          if (loop) {
+            loops.delete(loop.id)
+            if (activeLoopId === loop.id) activeLoopId = null
+          }
           return results.join("\n")
         },
       }),
 
       ralph_resume: tool({
-        description: "Resume a previously saved Ralph loop state. Optionally execute pre/post instructions.",
+        description: "Resume a previously saved Ralph loop state, or switch the active loop to another loop in memory. Optionally execute pre/post instructions.",
         args: {
+          loopId: tool.schema.string().optional().describe("ID of the loop to resume (see ralph_list). Default: the loop that was active when state was saved"),
           pre: tool.schema.string().optional().describe("Pre-resume instruction to execute before loading state"),
           post: tool.schema.string().optional().describe("Post-resume instruction to execute after loading state"),
         },
-        async execute({ pre, post }, ctx) {
+        async execute({ loopId, pre, post }, ctx) {
           const results: string[] = []
 
           if (pre) {
             results.push(`Pre-resume instruction: ${pre}`)
           }
 
-          const loadResult = loadRalphState()
-          
-          if (!loadResult.success) {
-            return `Failed to resume: ${loadResult.message}`
+          // A loop that is already in memory just becomes the active one
+          const inMemory = loopId ? loops.get(loopId) : undefined
+          if (inMemory) {
+            activeLoopId = inMemory.id
+            results.push(`Switched active loop.`)
+          } else {
+            const loadResult = loadRalphState(loopId)
+
+            if (!loadResult.success) {
+              return `Failed to resume: ${loadResult.message}`
+            }
+            results.push(`Ralph loop state loaded.`)
+            results.push(`Previously completed todos: ${loadResult.loadedTodosDone}`)
+            if (loadResult.recoveredTasks) {
+              results.push(`Recovered ${loadResult.recoveredTasks} task(s) interrupted mid-run - they are pending again`)
+            }
           }
 
-          if (!activeLoop) {
+          const loop = resolveLoop()
+          if (!loop) {
             return "No loop found in saved state"
           }
 
-          const completed = activeLoop.tasks.filter(t => t.status === "completed").length
-          const pending = activeLoop.tasks.filter(t => t.status === "pending").length
-          const failed = activeLoop.tasks.filter(t => t.status === "failed").length
-
-          results.push(`Ralph loop state loaded.`)
-          results.push(`Previously completed todos: ${loadResult.loadedTodosDone}`)
-          results.push(`Loop: ${activeLoop.id}`)
-          results.push(`Prompt: "${activeLoop.originalPrompt}"`)
-          results.push(`Progress: ${completed}/${activeLoop.tasks.length} (${pending} pending, ${failed} failed)`)
+          results.push(`Loop: ${loop.id}`)
+          results.push(`Prompt: "${loop.originalPrompt}"`)
+          results.push(`Progress: ${formatProgress(loop)}`)
+          if (loops.size > 1) {
+            results.push(`Other loops in memory: ${loops.size - 1} (see ralph_list)`)
+          }
 
           if (post) {
             results.push(`Post-resume instruction: ${post}`)
@@ -1106,11 +4353,13 @@ Use \`ralph_resume\` to restore this checkpoint and continue.`
           return `Ralph Wiggum - Multi-Session Task Runner with Parallelization
 Based on: https://ghuntley.com/ralph/
 
-## Two Modes
+## Four Modes
 
 ### 1. Automatic (Fire-and-Forget)
 Use \`ralph_auto\` for fully automatic execution:
 - Breaks down your prompt into ATOMIC tasks automatically
+- The planner returns a JSON plan (id, content, dependencies, outputs, files,
+  acceptance criteria); an invalid plan is sent back once for repair
 - Analyzes dependencies between tasks
 - Executes INDEPENDENT tasks in PARALLEL (or serially with --serial)
 - No further interaction needed
@@ -1124,15 +4373,53 @@ Use the traditional multi-step approach:
 2. ralph_add_tasks [...] - Add tasks with dependencies
 3. ralph_run - Execute (parallel where possible, or serial with --serial)
 
-## Serial Execution
+### 3. Plan First (Review Before Running)
+1. ralph_plan "prompt" - Plan into a loop without executing anything
+2. Review the plan, then fix it:
+   - ralph_edit_task --taskId id [--content ...] [--files ...] [--model ...]
+   - ralph_remove_task --taskId id [--force]
+   - ralph_set_dependencies --taskId id --dependencies [...]
+   - ralph_add_tasks [...] --after id
+3. ralph_run - Execute the reviewed plan
+
+### 4. Classic Loop (Same Prompt Until Done)
+Use \`ralph_loop\` for the original Ralph technique: no decomposition, the same
+prompt runs in a fresh session again and again until it is done.
+- --completionMarker text: done when the final message ends with it, on its own line
+  (default: ${DEFAULT_COMPLETION_MARKER}, which each iteration is told to print)
+- --completionCommand cmd: done when the command exits 0 after an iteration
+  (with both set, both must pass)
+- --maxIterations N caps the iterations (default: ${DEFAULT_MAX_ITERATIONS})
+- --cooldownMs pauses between iterations
+Every iteration's session and outcome is recorded on the loop (ralph_status).
+Continue a paused, cancelled or resumed loop with ralph_loop --loopId id.
 
-Use the --serial flag to execute tasks one at a time instead of in parallel:
-- Reduces API call frequency (useful for rate-limited APIs)
+Example:
+  ralph_loop "Make every test in test/ pass" --completionCommand "npm test" --maxIterations 20
+
+## Task Trees
+
+Planning goes deeper than one level. A planned task that is still too large -
+flagged "split" by the planner, or over ${OVERSIZED_TASK_LENGTH} characters or ${OVERSIZED_TASK_FILES} files - is planned
+again into subtasks (IDs like task_3.task_1), up to --maxPlanDepth levels
+(default: ${DEFAULT_MAX_PLAN_DEPTH}; 0 keeps the plan flat).
+- Only the leaves of the tree run; a split task completes when all of its
+  subtasks have, and fails if any of them doesn't
+- Depending on a split task means waiting for its whole subtree; subtasks
+  also wait for whatever their parent depends on
+- ralph_status and ralph_plan show the tree; ralph_remove_task removes a
+  split task together with its subtasks
+
+## Concurrency Limits
+
+Worker sessions run through a bounded pool:
+- --maxConcurrency N caps how many sessions run at once (default: no limit)
+- --providerConcurrency caps sessions per provider, e.g. {"anthropic": 2, "openai": 4}
+- --serial is the same as --maxConcurrency 1: one task at a time
 - Tasks still respect dependency order
-- Slower but gentler on resources
 
 Example:
-  ralph_auto "Build a blog" --serial
+  ralph_auto "Build a blog" --maxConcurrency 3
   ralph_run --serial
 
 ## Parallelization
@@ -1140,7 +4427,28 @@ Example:
 Tasks are automatically parallelized based on dependencies:
 - Tasks with NO dependencies run in PARALLEL
 - Tasks with dependencies wait for those to complete
-- Execution happens in "layers" - each layer runs in parallel
+- Duplicate IDs, unknown or self dependencies and cycles are rejected, as are
+  dependencies between a task and its own subtasks and cycles through split tasks
+
+ralph_add_tasks infers dependencies for tasks given without them: a task
+depends on an earlier task when it mentions a file path (src/auth.ts) or code
+identifier (AuthService, SESSION_TTL, \`anything in backticks\`) that task
+creates, or one of its outputs. Plain words like "the user" never count.
+Each inferred edge is listed with its reason, e.g.
+  - task_4 uses \`src/auth.ts\` produced by task_2
+Override with ralph_set_dependencies, by passing dependencies (even []),
+or turn it off with --inferDependencies false. A ralph_auto / ralph_plan plan
+that comes back with no dependencies at all gets them inferred the same way,
+from the planner's files and outputs.
+
+When a task fails (--onFailure):
+- continue (default): its dependents, direct and transitive, are marked
+  blocked; independent tasks keep running
+- fail_fast: no new tasks are started; the rest are marked blocked
+- run_anyway: dependents run regardless of the failure
+Blocked tasks are retried by the next ralph_run.
+- Each task starts as soon as its own dependencies finish - it never waits
+  for unrelated tasks. The "layers" shown below are a planning view only.
 
 Example task structure:
 \`\`\`
@@ -1150,6 +4458,22 @@ Task 3: Create views        [no deps]     ─┘
 Task 4: Integration tests   [deps: 1,2,3] ─── Layer 2 (waits)
 \`\`\`
 
+## Worktree Isolation
+
+With --isolation worktree, each task runs in its own git worktree on a branch
+named ralph/<loopId>/<taskId>-<attempt>, so parallel workers never edit the
+same files and a retry never resets an earlier attempt's branch:
+- When a task completes, its changes are committed and merged back into the
+  project's current branch (one merge at a time)
+- A merge conflict aborts the merge and fails the task as merge_conflict,
+  listing the conflicting files; the branch is kept for manual resolution
+- Branches of failed attempts are kept too (ralph_status lists them per
+  attempt); merged branches are deleted
+Needs a git repository with at least one commit.
+
+Example:
+  ralph_auto "Build a blog" --isolation worktree
+
 ## Why Fresh Sessions?
 - Prevents context pollution between tasks
 - Each task gets full context window
@@ -1163,22 +4487,177 @@ Workers are instructed to:
 - NOT refactor outside scope
 - STOP when their task is done
 
+Each worker is told what its dependencies produced: their summaries, the files
+they touched and their declared outputs, so it builds on that work.
+
+## Timeouts
+
+A worker stuck in a tool loop no longer blocks the run:
+- --taskTimeoutMs limits each task attempt (per task: timeoutMs in ralph_add_tasks)
+- --inactivityTimeoutMs aborts an attempt whose session sends no events
+  (messages, tool output, status changes) for that long
+Either one aborts the session and marks the task timed_out with the elapsed
+time. Add timeout to --retryOn to retry timed-out tasks.
+
+Example:
+  ralph_auto "Build a blog" --taskTimeoutMs 1800000 --inactivityTimeoutMs 300000 --retryOn transient,session,timeout
+
+## Verification
+
+"Completed" can mean more than "the model stopped talking":
+- --verifyCommands run after each task reports completion (in its worktree
+  when isolated); a non-zero exit fails the task with the command output
+- --fixAttempts N sends a failing output to up to N fresh fix-up sessions
+  for the same task, re-running the commands after each one
+- --verifyAfterLayer run in the project once every task of an execution layer
+  has finished; a failure fails that layer's tasks, and their dependents wait
+  for the layer check before starting
+
+Example:
+  ralph_auto "Build a blog" --verifyCommands "npm test,tsc --noEmit" --fixAttempts 2 --verifyAfterLayer "npm run lint"
+
+## Costs and Budgets
+
+Tokens and cost are read from every session's assistant messages - planning,
+workers, fix-ups and ralph_loop iterations - and recorded per task, per
+attempt and per loop. ralph_status and the run summaries show them.
+- --maxTokens N stops starting new tasks once the loop has used N tokens
+  (input + output + reasoning; cache reads and writes are only reported)
+- --maxCost USD does the same for cost
+Tasks in flight finish; the rest stays pending until the budget is raised
+and ralph_run is called again.
+
+Example:
+  ralph_auto "Build a blog" --maxCost 5
+
+## Reports
+
+Every run ends by writing the loop to report files, by default all three
+formats to ralph-reports/<loopId>.* next to the state file:
+- Markdown (.md) - a task table and per-task details, for PRs
+- JSON (.json) - everything, for scripts
+- JUnit XML (.xml) - one test case per task (or iteration), for CI dashboards;
+  failed, timed out and unverified tasks fail, blocked and cancelled ones are skipped
+Each covers statuses, dependencies, sessions, errors, durations, worker
+summaries and usage. ralph_report writes one on demand, to any file.
+Set "reports" in ralph.config.json to change the directory or formats
+("formats": [] turns the automatic reports off).
+
+Example:
+  ralph_report --format junit --output test-results/ralph.xml
+
+## Event Journal
+
+Every loop event is appended to ralph-journal/<loopId>.jsonl next to the state
+file, one JSON object per line with a timestamp: loop created, run started
+and finished, tasks added/updated/removed, sessions created (planner, worker,
+fix-up, iteration), tasks started, completed, failed, retried, blocked,
+cancelled and reset, and iterations started and finished.
+- ralph_timeline shows the journal as a numbered timeline (--taskId to focus)
+- ralph_replay rebuilds the loop's tasks, statuses and attempts from it,
+  optionally only up to event --upTo, to see the state at any point
+
+Example:
+  ralph_timeline --loopId ralph_auto_1700000000000 --taskId task_3
+  ralph_replay --loopId ralph_auto_1700000000000 --upTo 42
+
+## Project Config (ralph.config.json)
+
+Project defaults live in ralph.config.json at the project root. Every key is
+optional and tool arguments override them:
+\`\`\`json
+{
+  "model": "anthropic/claude-sonnet-4-5",
+  "plannerModel": "anthropic/claude-opus-4-5",
+  "routes": [{ "complexity": "low", "model": "openai/gpt-4o-mini" }],
+  "maxConcurrency": 3,
+  "providerConcurrency": { "anthropic": 2 },
+  "retry": { "maxAttempts": 4, "baseDelayMs": 2000, "maxDelayMs": 60000, "retryOn": ["transient", "session"] },
+  "onFailure": "continue",
+  "isolation": "worktree",
+  "taskTimeoutMs": 1800000,
+  "inactivityTimeoutMs": 300000,
+  "verification": { "afterTask": ["npm test"], "afterLayer": ["npm run lint"], "fixAttempts": 2, "timeoutMs": 600000 },
+  "maxPlanDepth": 2,
+  "budget": { "maxTokens": 2000000, "maxCost": 5 },
+  "reports": { "dir": "reports", "formats": ["markdown", "junit"] },
+  "stateDir": ".ralph",
+  "templates": { "worker": "prompts/worker.md", "planner": "prompts/planner.md" }
+}
+\`\`\`
+- Settings apply to loops created after the change; stateDir is read when
+  OpenCode starts
+- Paths are relative to the project root
+- An invalid file (bad JSON, unknown keys, bad values) makes ralph_auto,
+  ralph_start, ralph_plan and ralph_run report what is wrong and do nothing
+
+## Prompt Templates
+
+Put your team's rules in the project and they replace the built-in prompts:
+- .opencode/ralph/worker.md - the worker prompt
+- .opencode/ralph/planner.md - the planning prompt
+Templates are Markdown with {{variable}} placeholders:
+- worker: {{task}}, {{taskId}}, {{taskIndex}}, {{totalTasks}}, {{originalPrompt}},
+  {{dependencyResults}}, {{acceptanceCriteria}}, {{files}}, {{directory}},
+  {{projectContext}} (AGENTS.md), {{completionFormat}}
+- planner: {{request}}, {{directory}}, {{projectContext}}, {{planFormat}}
+{{completionFormat}} and {{planFormat}} hold the output format Ralph parses;
+they are appended when a template leaves them out.
+
+## Retries
+Failed task attempts are classified and retried with exponential backoff:
+- transient: rate limits, provider and network errors (retried by default)
+- session: a worker session could not be created (retried by default)
+- task: the worker failed or abandoned the task (not retried by default)
+- merge_conflict: worktree changes could not be merged back (not retried by default)
+- timeout: the task hit its time limit or stalled (not retried by default)
+- verification: the task's verification commands kept failing (not retried by default)
+
+Example:
+  ralph_auto "Build a blog" --maxAttempts 5 --retryOn transient,session,task
+  ralph_add_tasks [{id: "flaky", content: "...", maxAttempts: 4}]
+
+Every attempt is recorded with its own session and error - see ralph_status.
+
 ## Model Selection
 Default model: opencode/opencode-zen-big-pickle
 Override with: ralph_auto "task" --model "anthropic/claude-opus-4-5-20250929"
 
+Plan with a strong model and run simple tasks on a cheap one:
+- --plannerModel sets the model for the planning session
+- --routes sends tasks to models by tag or complexity (low, medium, high);
+  the planner assigns a complexity to each task. First matching rule wins
+- A task's own model (ralph_add_tasks) overrides both
+The model each worker actually ran on is recorded on the task.
+
+Example:
+  ralph_auto "Build a blog" --plannerModel anthropic/claude-opus-4-5 \\
+    --routes '[{"complexity": "low", "model": "openai/gpt-4o-mini"}]'
+  ralph_add_tasks [{id: "docs", content: "...", tags: ["docs"], model: "openai/gpt-4o-mini"}]
+
 ## CLI Usage (Headless)
   opencode run "Use ralph_auto to implement feature X"
   opencode run "Use ralph_auto with --serial to implement feature X"
 
 ## Tools
-- ralph_auto "prompt" [--serial] - Automatic breakdown + execution (parallel by default)
+- ralph_auto "prompt" [--background] [--serial] [--maxConcurrency N] [--isolation worktree] - Automatic breakdown + execution (parallel by default)
 - ralph_start "prompt" - Initialize manual loop
-- ralph_add_tasks [{id, content, dependencies?}, ...] - Add tasks
-- ralph_run [--serial] - Execute tasks (parallel by default)
-- ralph_status - Check progress
-- ralph_quit [--pre "instruction"] [--post "instruction"] - Save state and quit
-- ralph_resume [--pre "instruction"] [--post "instruction"] - Resume saved state
+- ralph_add_tasks [{id, content, dependencies?, outputs?}, ...] [--after id] - Add tasks (or insert into a plan); missing dependencies are inferred
+- ralph_plan ["prompt"] [--replace] [--maxPlanDepth N] - Plan into a loop without executing
+- ralph_edit_task --taskId id [fields] - Edit a task that hasn't completed
+- ralph_remove_task --taskId id [--force] - Remove a task from the plan
+- ralph_set_dependencies --taskId id --dependencies [...] - Replace a task's dependencies
+- ralph_run [--loopId id] [--background] [--serial] [--maxConcurrency N] [--isolation worktree] - Execute tasks (parallel by default)
+- ralph_loop "prompt" [--completionMarker text] [--completionCommand cmd] [--maxIterations N] [--cooldownMs ms] - Same prompt in fresh sessions until done
+- ralph_pause [--loopId id] - Finish in-flight tasks, start no new ones
+- ralph_cancel [--loopId id] - Abort in-flight worker sessions and stop the loop
+- ralph_status [--loopId id] - Check progress
+- ralph_list - List all loops (in memory and saved)
+- ralph_report [--loopId id] [--format markdown|json|junit] [--output file] - Export a loop report
+- ralph_timeline [--loopId id] [--taskId id] - Show a loop's event journal as a timeline
+- ralph_replay [--loopId id] [--upTo N] - Rebuild a loop's state from its journal
+- ralph_quit [--loopId id] [--pre "instruction"] [--post "instruction"] - Save state and quit
+- ralph_resume [--loopId id] [--pre "instruction"] [--post "instruction"] - Resume saved state
 - ralph_help - This help
 
 ## Session State (ralph_quit / ralph_resume)
@@ -1190,11 +4669,41 @@ Save your progress and resume later:
 3. Save state and quit: \`ralph_quit\`
 4. Resume later: \`ralph_resume\`
 
-Both commands support optional pre/post instructions:
+## Background Runs
+
+ralph_auto and ralph_run accept --background: the tool returns the loop ID at
+once and the loop keeps running in the plugin process. Follow it with
+ralph_status --loopId <id>, which shows active sessions and recent progress.
+
+Example:
+  ralph_auto "Build a blog" --background
+  ralph_status --loopId ralph_auto_1700000000000
+
+## Stopping a Loop
+
+- ralph_pause: tasks (or the iteration) in progress finish; nothing new is started
+- ralph_cancel: every worker session in progress is aborted and its task
+  marked cancelled, as are tasks still waiting for a worker slot
+Either way the loop keeps its progress. ralph_run picks it back up
+(after ralph_resume if it was saved and quit).
+
+## Multiple Loops
+
+Several loops can live side by side, keyed by loop ID:
+- ralph_start adds a new loop and makes it the active one; existing loops are kept
+- Tools act on the active loop unless given --loopId
+- ralph_list shows every loop in memory and in the saved state file
+- ralph_resume --loopId id loads (or switches to) a specific loop
+
+Both ralph_quit and ralph_resume support optional pre/post instructions:
 - \`ralph_quit --pre "Check git status" --post "Notify team"\`
 - \`ralph_resume --pre "Review previous work" --post "Continue implementation"\`
 
-State is saved to: ~/.config/opencode/ralph-state.json`
+State is checkpointed automatically on every task status change, so a crashed
+OpenCode process can be resumed from the last transition (tasks that were in
+progress go back to pending). Writes are atomic and the file is versioned.
+
+State is saved to: ${ralphStateFile}`
         },
       }),
     },